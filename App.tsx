@@ -1,29 +1,121 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { CameraSettings, ConnectionState, Shot, LutPreset, AspectRatioGuide } from './types';
+import { CameraSettings, ConnectionState, VideoInputSettings, SignalLoss, RecordingSource, RecordingOutputSettings, RecordingFormat, LibraryTake, AudioInput, TimecodeSettings, MarkerColor, MarkerSource, Shot, Lut, LutPreset, LutInterpolation, FrameGuideSettings, ScopePlacement, ExposureAssistSettings, ChromaKeySettings, ChromaBackground } from './types';
 import { LiveView } from './components/LiveView';
 import { AudioMonitor } from './components/AudioMonitor';
 import { ControlPanel } from './components/ControlPanel';
 import { Teleprompter } from './components/Teleprompter';
 import { ShotList } from './components/ShotList';
-import { Wifi, Settings } from 'lucide-react';
+import { Scopes } from './components/Scopes';
+import { VideoSource } from './components/VideoSource';
+import { RecoveryDialog } from './components/RecoveryDialog';
+import { RecordingFormatDialog } from './components/RecordingFormatDialog';
+import { TakeLibrary } from './components/TakeLibrary';
+import { ZEBRA_PRESETS } from './utils/exposure';
+import { DEFAULT_LUT_ID, getBuiltInLuts, findLut, loadUserLuts, saveUserLut, deleteUserLut } from './utils/lut';
+import { parseCubeLut } from './utils/cubeLut';
+import { CHROMA_PRESETS } from './utils/chromaKey';
+import { loadProjectName, saveProjectName, loadProjectSetting, loadAllProjectSettings, saveProjectSetting } from './utils/project';
+import { savePlateMedia, deletePlateMedia } from './utils/plates';
+import { VideoRelay, ProgramState } from './utils/videoRelay';
+import { PreRollBuffer } from './utils/preRoll';
+import { WavRecorder } from './utils/wavRecorder';
+import { SegmentedRecorder, isSplitting } from './utils/segmentedRecorder';
+import { StorageStatus, StorageLevel, readStorageStatus, requestPersistentStorage, formatRemaining } from './utils/recordingStorage';
+import { DEFAULT_RECORDING_FORMAT, buildRecorderOptions, extensionForMimeType } from './utils/recordingFormat';
+import { mixAudioChannels } from './utils/audioMix';
+import { inputFileSuffix } from './utils/audioInputs';
+import { avDeviceKey, loadAvOffset, saveAvOffset, measureAvOffset } from './utils/avSync';
+import { downloadBlob } from './utils/download';
+import { NewLibraryTake, addToLibrary, listLibrary, updateLibraryTake, deleteLibraryTake } from './utils/takeLibrary';
+import { timecodeAt } from './utils/timecode';
+import { LtcOutput } from './utils/ltc';
+import { LiveMarker, AUTO_MARKER_COLORS, createLiveMarker, markersInFile } from './utils/markers';
+import { TakeWriter, OrphanedTake, listOrphanedTakes, rebuildTake, deleteTake } from './utils/takeRecovery';
+import { Wifi, Settings, Library } from 'lucide-react';
+
+const DEFAULT_CHROMA_BACKGROUND: ChromaBackground = {
+  kind: 'checkerboard',
+  color: '#202020',
+  mediaId: null,
+  mediaName: null,
+  offsetX: 0,
+  offsetY: 0,
+  scale: 1
+};
+
+const STORAGE_POLL_RECORDING_MS = 5000;
+const STORAGE_POLL_IDLE_MS = 30000;
+// One clipping marker per burst of overs, not one per meter frame
+const CLIP_MARKER_INTERVAL_MS = 2000;
+const SIGNAL_LOST_NOTE = 'Video signal lost';
+const SIGNAL_FROZEN_NOTE = 'Video frozen';
+const SIGNAL_BACK_NOTE = 'Video signal back';
+const signalLossNote = (loss: SignalLoss) => loss.reason === 'frozen' ? SIGNAL_FROZEN_NOTE : SIGNAL_LOST_NOTE;
+
+interface WavTake {
+  recorder: WavRecorder;
+  writer: TakeWriter;
+  filename: string;
+  info: Pick<NewLibraryTake, 'shotId' | 'shotName' | 'take'>;
+  timecode: TimecodeSettings;
+  markers: LiveMarker[];
+  shotId: string | null; // Set when this file is the take and advances the shot
+}
 
 export default function App() {
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [isRecording, setIsRecording] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
   const [showTeleprompter, setShowTeleprompter] = useState(false);
+  const [projectName, setProjectName] = useState<string>(loadProjectName);
+  const [projectNameDraft, setProjectNameDraft] = useState(projectName); // Being typed, not yet the project
+  const [orphanedTakes, setOrphanedTakes] = useState<OrphanedTake[]>([]);
+  const [isRecoveryDismissed, setIsRecoveryDismissed] = useState(false);
+  const [storageStatus, setStorageStatus] = useState<StorageStatus | null>(null);
+  const [library, setLibrary] = useState<LibraryTake[]>([]);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   
   // --- PRODUCTION TOOLS STATE ---
   const [shots, setShots] = useState<Shot[]>([]);
   const [activeShotId, setActiveShotId] = useState<string | null>(null);
   
-  const [activeLut, setActiveLut] = useState<LutPreset>('none');
+  const [lutLibrary, setLutLibrary] = useState<Lut[]>(getBuiltInLuts);
+  const [activeLut, setActiveLut] = useState<LutPreset>(DEFAULT_LUT_ID);
+  const [lutInterpolation, setLutInterpolation] = useState<LutInterpolation>('tetrahedral');
   const [ghostImage, setGhostImage] = useState<string | null>(null);
   const [isGhostVisible, setIsGhostVisible] = useState(false);
   const [isChromaActive, setIsChromaActive] = useState(false);
+  const [chromaColor, setChromaColor] = useState<string>(CHROMA_PRESETS.green);
+  const [chromaKey, setChromaKey] = useState<ChromaKeySettings>({
+    similarity: 0.25,
+    smoothness: 0.15,
+    spill: 0.5,
+    showMatte: false
+  });
+  const [isPickingChromaColor, setIsPickingChromaColor] = useState(false);
+  const [chromaBackground, setChromaBackground] = useState<ChromaBackground>(() =>
+    loadProjectSetting(loadProjectName(), 'chromaBackground', DEFAULT_CHROMA_BACKGROUND)
+  );
   const [isSyncFlashActive, setIsSyncFlashActive] = useState(false);
-  const [activeGuide, setActiveGuide] = useState<AspectRatioGuide>('none');
+  const [frameGuides, setFrameGuides] = useState<FrameGuideSettings>({
+    enabled: false,
+    ratios: ['9:16'],
+    customRatios: [],
+    maskOpacity: 0.7,
+    lineColor: '#ffffff',
+    centerCross: false,
+    actionSafe: false,
+    titleSafe: false
+  });
   const [isAudioTriggerActive, setIsAudioTriggerActive] = useState(false);
+  const [scopesPlacement, setScopesPlacement] = useState<ScopePlacement>('off');
+  const [exposureAssist, setExposureAssist] = useState<ExposureAssistSettings>({
+    zebrasEnabled: false,
+    zebraLow: ZEBRA_PRESETS.slog2.low,
+    zebraHigh: ZEBRA_PRESETS.slog2.high,
+    falseColorEnabled: false,
+    profile: 'slog2'
+  });
 
   const [settings, setSettings] = useState<CameraSettings>({
     iso: 800,
@@ -32,12 +124,53 @@ export default function App() {
     wb: '5600K'
   });
 
+  const [recordingOutput, setRecordingOutput] = useState<RecordingOutputSettings>({
+    source: 'clean',
+    alsoRecordClean: false,
+    preRollSeconds: 0,
+    overlays: { timecode: true, shotName: true, frameLines: false, watermark: '' },
+    wavBitDepth: 24,
+    wavSidecar: false,
+    splitMinutes: 0,
+    splitMegabytes: 0
+  });
+  const [videoInput, setVideoInput] = useState<VideoInputSettings>({ deviceId: null, formatId: 'auto' });
+  const [recordingFormat, setRecordingFormat] = useState<RecordingFormat>(DEFAULT_RECORDING_FORMAT);
+  const [isFormatDialogOpen, setIsFormatDialogOpen] = useState(false);
+  const [markerColor, setMarkerColor] = useState<MarkerColor>('yellow');
+  const [liveMarkers, setLiveMarkers] = useState<LiveMarker[]>([]);
+  const [timecode, setTimecode] = useState<TimecodeSettings>(() => ({
+    mode: 'tod',
+    rate: '25',
+    freeRunStart: '00:00:00:00',
+    freeRunStartedAt: Date.now(),
+    burnIn: false,
+    ltcEnabled: false,
+    ltcChannel: 'right'
+  }));
+
   // Media Streams for Recording and Teleprompter
   const [videoStream, setVideoStream] = useState<MediaStream | null>(null);
   const [audioStream, setAudioStream] = useState<MediaStream | null>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
+  const [extraAudioInputs, setExtraAudioInputs] = useState<AudioInput[]>([]);
+  // Mic mixed down/up to the format's channel count; what the MediaRecorders get
+  const [recordingAudioStream, setRecordingAudioStream] = useState<MediaStream | null>(null);
+  // How much later the picture arrives than the mic, for this capture card + mic
+  const [avOffsetMs, setAvOffsetMs] = useState(0);
+  const [isCalibratingAvSync, setIsCalibratingAvSync] = useState(false);
+  const mediaRecorderRef = useRef<SegmentedRecorder | null>(null);
+  const videoRelayRef = useRef<VideoRelay | null>(null);
+  const cleanRecorderRef = useRef<SegmentedRecorder | null>(null);
+  const cleanRelayRef = useRef<VideoRelay | null>(null);
+  const preRollRef = useRef<{ buffer: PreRollBuffer; relay: VideoRelay | null } | null>(null);
+  // WAV files of the running take: the main mic's and one per recorded extra input
+  const wavTakesRef = useRef<WavTake[]>([]);
+  // Markers of the running take; null while idle
+  const markersRef = useRef<LiveMarker[] | null>(null);
+  const signalLossRef = useRef<SignalLoss | null>(null);
   const recordingTimerRef = useRef<number | null>(null);
+  // Bitrate of the running (or last) take, for the remaining-time estimate
+  const lastBitrateRef = useRef<number | null>(null);
 
   // Simulate Connection Sequence
   useEffect(() => {
@@ -49,6 +182,88 @@ export default function App() {
     };
   }, []);
 
+  // Imported .cube LUTs live in IndexedDB
+  useEffect(() => {
+    loadUserLuts()
+      .then(userLuts => setLutLibrary([...getBuiltInLuts(), ...userLuts]))
+      .catch(err => console.error("Could not load LUT library", err));
+  }, []);
+
+  // Background plate choice is remembered per project
+  useEffect(() => {
+    saveProjectName(projectName);
+    setChromaBackground(loadProjectSetting(projectName, 'chromaBackground', DEFAULT_CHROMA_BACKGROUND));
+  }, [projectName]);
+
+  // Settings are keyed by the name, so only a finished name switches project
+  const commitProjectName = () => {
+    const name = projectNameDraft.trim();
+    setProjectNameDraft(name || projectName);
+    if (name) setProjectName(name);
+  };
+
+  const handleChangeChromaBackground = (background: ChromaBackground) => {
+    setChromaBackground(background);
+    saveProjectSetting(projectName, 'chromaBackground', background);
+  };
+
+  const handlePickChromaPlate = async (file: File) => {
+    try {
+      const mediaId = await savePlateMedia(file);
+      const previousId = chromaBackground.mediaId;
+      handleChangeChromaBackground({
+        ...chromaBackground,
+        kind: file.type.startsWith('video/') ? 'video' : 'image',
+        mediaId,
+        mediaName: file.name
+      });
+      // Plate videos are big: drop the replaced one unless another project still uses it
+      if (previousId && !loadAllProjectSettings<ChromaBackground>('chromaBackground').some(b => b.mediaId === previousId)) {
+        deletePlateMedia(previousId).catch(err => console.warn("Could not delete the replaced plate", err));
+      }
+    } catch (err) {
+      console.error("Background plate import failed:", err);
+      alert(`Could not store ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  useEffect(() => {
+    listLibrary()
+      .then(setLibrary)
+      .catch(err => console.error("Could not load the take library", err));
+  }, []);
+
+  // Takes left on disk by a crash or reload
+  useEffect(() => {
+    listOrphanedTakes()
+      .then(takes => {
+        takes.filter(t => t.chunkCount === 0).forEach(t => deleteTake(t.id).catch(() => {}));
+        setOrphanedTakes(takes.filter(t => t.chunkCount > 0));
+      })
+      .catch(err => console.error("Could not check for unsaved takes", err));
+  }, []);
+
+  const handleRecoverTake = async (take: OrphanedTake) => {
+    try {
+      downloadBlob(await rebuildTake(take), take.filename);
+      await deleteTake(take.id);
+      setOrphanedTakes(prev => prev.filter(t => t.id !== take.id));
+    } catch (err) {
+      console.error("Take recovery failed:", err);
+      alert(`Could not recover ${take.filename}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleDiscardTake = async (take: OrphanedTake) => {
+    if (!window.confirm(`Delete the unsaved take ${take.filename}? This cannot be undone.`)) return;
+    try {
+      await deleteTake(take.id);
+    } catch (err) {
+      console.error("Could not delete take", err);
+    }
+    setOrphanedTakes(prev => prev.filter(t => t.id !== take.id));
+  };
+
   // --- SHOT LIST HANDLERS ---
   const handleAddShot = (name: string) => {
     const newShot: Shot = {
@@ -70,6 +285,53 @@ export default function App() {
     setShots(shots.map(s => s.id === id ? { ...s, completed: !s.completed } : s));
   };
 
+  // --- LUT LIBRARY HANDLERS ---
+  const handleImportLut = async (file: File) => {
+    try {
+      const lut = parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ''));
+      await saveUserLut(lut);
+      setLutLibrary(prev => [...prev, lut]);
+      setActiveLut(lut.id);
+    } catch (err) {
+      console.error("LUT import failed:", err);
+      alert(`Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleDeleteLut = async (id: string) => {
+    try {
+      await deleteUserLut(id);
+    } catch (err) {
+      console.error("Could not delete LUT", err);
+    }
+    setLutLibrary(prev => prev.filter(l => l.id !== id));
+    if (activeLut === id) setActiveLut(DEFAULT_LUT_ID);
+  };
+
+  const activeLutData = findLut(lutLibrary, activeLut);
+
+  // --- PROGRAM FEED (what the recording relays render) ---
+  const programState: ProgramState = {
+    lut: activeLutData,
+    lutInterpolation,
+    isChromaActive,
+    chromaBackground,
+    frameGuides,
+    shotName: shots.find(s => s.id === activeShotId)?.name ?? null,
+    overlays: recordingOutput.overlays,
+    timecode,
+    videoDelayMs: avOffsetMs
+  };
+  const programStateRef = useRef(programState);
+  programStateRef.current = programState;
+
+  // Grading/compositing changes during a take land in the file
+  useEffect(() => {
+    videoRelayRef.current?.setProgram(programState);
+    preRollRef.current?.relay?.setProgram(programState);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeLutData, lutInterpolation, isChromaActive, chromaBackground, frameGuides, activeShotId, shots, recordingOutput, timecode, avOffsetMs]);
+
   // --- GHOST MODE HANDLER ---
   const handleCaptureGhost = () => {
     const video = document.getElementById('live-video-element') as HTMLVideoElement;
@@ -88,7 +350,8 @@ export default function App() {
   };
 
   // --- DIGITAL SLATE SYNC LOGIC ---
-  const handleSyncSlate = () => {
+  // Returns how long until the beep is actually audible (ms), for A/V calibration
+  const handleSyncSlate = (): number => {
     // 1. Visual Flash
     setIsSyncFlashActive(true);
     setTimeout(() => setIsSyncFlashActive(false), 100); // 3 frames approx at 30fps
@@ -108,9 +371,61 @@ export default function App() {
         
         osc.start();
         osc.stop(ctx.currentTime + 0.1); // 100ms beep
+        osc.onended = () => ctx.close().catch(() => {});
+        return ((ctx as AudioContext).outputLatency || ctx.baseLatency || 0) * 1000;
+    }
+    return 0;
+  };
+
+  // --- A/V SYNC ---
+  const avKey = avDeviceKey(videoStream, audioStream);
+
+  useEffect(() => {
+    setAvOffsetMs(avKey ? loadAvOffset(avKey) : 0);
+  }, [avKey]);
+
+  const handleChangeAvOffset = (offsetMs: number) => {
+    setAvOffsetMs(offsetMs);
+    if (avKey) saveAvOffset(avKey, offsetMs);
+  };
+
+  // Slate flash and beep in front of the camera, timed on the way back in
+  const handleCalibrateAvSync = async () => {
+    const video = document.getElementById('live-video-element') as HTMLVideoElement | null;
+    if (!video || !videoStream || !audioStream) {
+      alert("A/V calibration needs both the camera feed and the mic.");
+      return;
+    }
+    setIsCalibratingAvSync(true);
+    try {
+      const { offsetMs } = await measureAvOffset({ video, audioStream, fireSlate: handleSyncSlate });
+      handleChangeAvOffset(offsetMs);
+    } catch (err) {
+      console.error("A/V calibration failed:", err);
+      alert(`A/V calibration failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsCalibratingAvSync(false);
     }
   };
 
+  // --- TIMECODE ---
+  // LTC audio out while enabled; rebuilt when the clock or the channel changes
+  useEffect(() => {
+    if (!timecode.ltcEnabled) return;
+    let cancelled = false;
+    const ltc = new LtcOutput(timecode);
+    ltc.ready.catch(err => {
+      if (cancelled) return;
+      console.error("LTC output failed:", err);
+      alert(`LTC output failed: ${err instanceof Error ? err.message : String(err)}`);
+      setTimecode(prev => ({ ...prev, ltcEnabled: false }));
+    });
+    return () => {
+      cancelled = true;
+      ltc.stop();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [timecode.ltcEnabled, timecode.ltcChannel, timecode.mode, timecode.rate, timecode.freeRunStart, timecode.freeRunStartedAt]);
 
   // --- RECORDING LOGIC ---
   const handleToggleRecord = () => {
@@ -121,21 +436,181 @@ export default function App() {
     }
   };
 
-  const getSupportedMimeType = () => {
-    const types = [
-      'video/webm;codecs=vp9,opus',
-      'video/webm;codecs=vp8,opus',
-      'video/webm',
-      'video/mp4'
-    ];
-    for (const type of types) {
-      if (MediaRecorder.isTypeSupported(type)) {
-        return type;
-      }
+  // Generate Filename from Shot List
+  const getTakeFilename = () => {
+    const activeShot = shots.find(s => s.id === activeShotId);
+    if (activeShot) return `${activeShot.name.replace(/\s+/g, '_')}_Take${activeShot.take}`;
+
+    const now = new Date();
+    const timestamp = `${now.getFullYear()}${String(now.getMonth()+1).padStart(2,'0')}${String(now.getDate()).padStart(2,'0')}_${String(now.getHours()).padStart(2,'0')}${String(now.getMinutes()).padStart(2,'0')}`;
+    return `A6000_REC_${timestamp}`;
+  };
+
+  // Record through relays so the take survives the source being re-acquired
+  const createRelay = (source: RecordingSource, frameRate: number, allowBurnIn = true) => {
+    const relay = new VideoRelay(frameRate, source, allowBurnIn);
+    relay.setSignalLost(signalLossRef.current);
+    relay.setProgram(programStateRef.current);
+    return relay;
+  };
+
+  useEffect(() => {
+    if (!audioStream) {
+      setRecordingAudioStream(null);
+      return;
     }
-    return '';
+    try {
+      // Audio-only takes are WAV from the raw mic, so the delay only affects video files
+      const mix = mixAudioChannels(audioStream, recordingFormat.audioChannels, avOffsetMs);
+      setRecordingAudioStream(mix.stream);
+      return () => mix.close();
+    } catch (err) {
+      console.error("Could not set up the audio channel mix, recording the mic as is:", err);
+      setRecordingAudioStream(audioStream);
+    }
+  }, [audioStream, recordingFormat.audioChannels, avOffsetMs]);
+
+  // --- TAKE LIBRARY ---
+  const takeInfo = (activeShot: Shot | undefined) => ({
+    shotId: activeShot?.id ?? null,
+    shotName: activeShot?.name ?? null,
+    take: activeShot?.take ?? null
+  });
+
+  // Start timecode (as it was running at the file's first frame) and the markers inside one file
+  const fileMetadata = (settings: TimecodeSettings, markers: LiveMarker[], startedAt: number, duration: number) => ({
+    timecode: timecodeAt(settings, new Date(startedAt)),
+    timecodeRate: settings.rate,
+    markers: markersInFile(markers, startedAt, duration)
+  });
+
+  // Finished files go to the take bin for review. If that fails (e.g. storage
+  // full) the file is downloaded instead so the take is never lost
+  const storeTake = async (blob: Blob, info: NewLibraryTake, writer: TakeWriter) => {
+    try {
+      const take = await addToLibrary(blob, info);
+      setLibrary(prev => [take, ...prev]);
+    } catch (err) {
+      console.error("Could not add take to the library, downloading it instead:", err);
+      downloadBlob(blob, info.filename);
+    }
+    writer.discard().catch(err => console.error("Could not clean up recovered chunks", err));
+  };
+
+  const handleUpdateLibraryTake = (take: LibraryTake) => {
+    setLibrary(prev => prev.map(t => t.id === take.id ? take : t));
+    updateLibraryTake(take).catch(err => console.error("Could not save take details", err));
+  };
+
+  const handleDeleteLibraryTakes = async (ids: string[]) => {
+    try {
+      for (const id of ids) await deleteLibraryTake(id);
+    } catch (err) {
+      console.error("Could not delete take", err);
+      alert(`Could not delete take: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    setLibrary(await listLibrary().catch(() => library.filter(t => !ids.includes(t.id))));
+  };
+
+  // Broadcast WAV capture: the whole take for audio-only sessions, a sidecar
+  // next to the video file, or an extra input's own file
+  const startWavTake = (
+    stream: MediaStream | null,
+    filename: string,
+    activeShot: Shot | undefined,
+    markers: LiveMarker[],
+    isAudioOnly: boolean,
+    trackName: string | null = null
+  ) => {
+    if (!stream) throw new Error('No audio input for WAV recording');
+    const writer = new TakeWriter(`${filename}.wav`, 'audio/wav');
+    const recorder = new WavRecorder(stream, recordingOutput.wavBitDepth, recordingFormat.audioChannels, {
+      project: projectName,
+      scene: activeShot?.name ?? null,
+      take: activeShot?.take ?? null,
+      timecode,
+      trackName
+    }, writer);
+    const wavTake: WavTake = {
+      recorder,
+      writer,
+      filename,
+      info: takeInfo(activeShot),
+      timecode,
+      markers,
+      shotId: isAudioOnly ? activeShot?.id ?? null : null
+    };
+    wavTakesRef.current.push(wavTake);
+
+    recorder.ready.catch(err => {
+      console.error("WAV capture failed:", err);
+      writer.discard().catch(() => {});
+      if (!wavTakesRef.current.includes(wavTake)) return;
+      wavTakesRef.current = wavTakesRef.current.filter(t => t !== wavTake);
+      if (isAudioOnly) stopRecording();
+      alert(`WAV recording of ${trackName ?? 'the mic'} failed: ${err instanceof Error ? err.message : String(err)}`);
+    });
+  };
+
+  // Extra inputs switched to REC, each to its own WAV named after the input
+  const startExtraWavTakes = (filename: string, activeShot: Shot | undefined, markers: LiveMarker[]) => {
+    const used = new Set<string>();
+    extraAudioInputs.filter(input => input.record).forEach(input => {
+      let suffix = inputFileSuffix(input.label);
+      for (let n = 2; used.has(suffix); n++) suffix = `${inputFileSuffix(input.label)}_${n}`;
+      used.add(suffix);
+      startWavTake(input.stream, `${filename}_${suffix}`, activeShot, markers, false, input.label);
+    });
+  };
+
+  const finishWavTake = (wavTake: WavTake) => {
+    // Audio-only takes advance the shot here; video takes do it in the recorder's onstop
+    if (wavTake.shotId) setShots(prev => prev.map(s => s.id === wavTake.shotId ? { ...s, take: s.take + 1 } : s));
+    wavTake.recorder.stop()
+      .then(blob => {
+        const { startedAt, duration } = wavTake.recorder;
+        return storeTake(blob, {
+          ...wavTake.info,
+          ...fileMetadata(wavTake.timecode, wavTake.markers, startedAt ? startedAt.getTime() : Date.now(), duration),
+          filename: `${wavTake.filename}.wav`,
+          duration,
+          sampleRate: wavTake.recorder.sampleRate
+        }, wavTake.writer);
+      })
+      .catch(err => console.error("Could not finish WAV take:", err));
+  };
+
+  const finishWavTakes = () => {
+    const wavTakes = wavTakesRef.current;
+    wavTakesRef.current = [];
+    wavTakes.forEach(finishWavTake);
   };
 
+  // --- PRE-ROLL ---
+  // While idle, keep a rolling buffer recording so a take can start before REC.
+  // Video takes only: audio-only takes are WAV, which doesn't go through MediaRecorder
+  useEffect(() => {
+    if (isRecording || !recordingOutput.preRollSeconds || !recordingFormat.includeVideo || !videoStream?.getVideoTracks().length) return;
+    try {
+      const videoTrack = videoStream?.getVideoTracks()[0];
+      const relay = videoTrack ? createRelay(recordingOutput.source, videoTrack.getSettings().frameRate || 30) : null;
+      const tracks = [...(relay ? relay.stream.getVideoTracks() : []), ...(recordingAudioStream ? recordingAudioStream.getAudioTracks() : [])];
+      const buffer = new PreRollBuffer(new MediaStream(tracks), buildRecorderOptions(recordingFormat), recordingOutput.preRollSeconds);
+      const preRoll = { buffer, relay };
+      preRollRef.current = preRoll;
+      return () => {
+        // Already handed over to a take
+        if (preRollRef.current !== preRoll) return;
+        buffer.stop();
+        relay?.stop();
+        preRollRef.current = null;
+      };
+    } catch (err) {
+      console.error("Pre-roll unavailable:", err);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRecording, videoStream, recordingAudioStream, recordingFormat, recordingOutput.source, recordingOutput.preRollSeconds]);
+
   const startRecording = () => {
     if (!videoStream && !audioStream) {
        // Allow voice recorder mode
@@ -146,70 +621,98 @@ export default function App() {
     }
 
     try {
-      const tracks: MediaStreamTrack[] = [];
-      if (videoStream) {
-        const videoTracks = videoStream.getVideoTracks();
-        if (videoTracks.length > 0) tracks.push(...videoTracks);
-      }
-      if (audioStream) {
-        const audioTracks = audioStream.getAudioTracks();
-        if (audioTracks.length > 0) tracks.push(...audioTracks);
-      }
-
-      const combinedStream = new MediaStream(tracks);
-      const mimeType = getSupportedMimeType();
-      const options: MediaRecorderOptions = mimeType ? { mimeType } : {};
-      
-      const recorder = new MediaRecorder(combinedStream, options);
+      const videoTrack = recordingFormat.includeVideo ? videoStream?.getVideoTracks()[0] : undefined;
+      const audioTracks = recordingAudioStream ? recordingAudioStream.getAudioTracks() : [];
+      const frameRate = videoTrack?.getSettings().frameRate || 30;
+      const options = buildRecorderOptions(recordingFormat);
+      const type = options.mimeType || 'video/webm';
+      const ext = extensionForMimeType(type);
+      const filename = getTakeFilename();
+      const activeShot = shots.find(s => s.id === activeShotId);
+      const markers: LiveMarker[] = [];
+      markersRef.current = markers;
+      // Video files hold what happened this long before they were written
+      const videoDelayMs = avOffsetMs;
+      setLiveMarkers([]);
 
-      recorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunksRef.current.push(e.data);
-      };
+      if (!videoTrack) {
+        // Audio-only takes are uncompressed Broadcast WAV, never Opus
+        startWavTake(audioStream, filename, activeShot, markers, true);
+      } else {
+        // Take over the pre-roll recorder if one is running, so the file starts before REC
+        const preRoll = preRollRef.current;
+        preRollRef.current = null;
+        const take = preRoll ? preRoll.buffer.take() : null;
+        if (preRoll && !take) preRoll.relay?.stop();
 
-      recorder.onerror = (event) => {
-        console.error("Recorder error:", event);
-        stopRecording();
-      };
+        let stream: MediaStream;
+        if (take) {
+          stream = take.recorder.stream;
+          videoRelayRef.current = preRoll!.relay;
+        } else {
+          const relay = createRelay(recordingOutput.source, frameRate);
+          videoRelayRef.current = relay;
+          stream = new MediaStream([...relay.stream.getVideoTracks(), ...audioTracks]);
+        }
 
-      recorder.onstop = () => {
-        const type = mimeType || 'video/webm';
-        const blob = new Blob(chunksRef.current, { type });
-        chunksRef.current = [];
-        const url = URL.createObjectURL(blob);
-        
-        const isMp4 = type.includes('mp4');
-        const ext = isMp4 ? 'mp4' : 'webm';
+        // Long takes roll over to numbered files: Intro_Take1_Part01, _Part02...
+        const limits = { minutes: recordingOutput.splitMinutes, megabytes: recordingOutput.splitMegabytes };
+        const segmentName = (base: string, index: number) =>
+          isSplitting(limits) ? `${base}_Part${String(index).padStart(2, '0')}.${ext}` : `${base}.${ext}`;
+        const info = takeInfo(activeShot);
 
-        // Generate Filename from Shot List
-        const activeShot = shots.find(s => s.id === activeShotId);
-        let filename = `A6000_REC`;
-        
-        if (activeShot) {
-            filename = `${activeShot.name.replace(/\s+/g, '_')}_Take${activeShot.take}`;
+        // Chunks go to disk as they arrive so a crash doesn't lose the take
+        const recorder = new SegmentedRecorder(stream, options, limits, {
+          createWriter: index => new TakeWriter(segmentName(filename, index), type),
+          onSegment: (blob, { index, startedAt, duration }, writer) => storeTake(blob, {
+            ...info,
+            ...fileMetadata(timecode, markers, startedAt - videoDelayMs, duration),
+            filename: segmentName(filename, index),
+            duration
+          }, writer),
+          onStop: () => {
+            videoRelayRef.current?.stop();
+            videoRelayRef.current = null;
             // Auto increment take
-            setShots(prev => prev.map(s => s.id === activeShot.id ? { ...s, take: s.take + 1 } : s));
-        } else {
-            const now = new Date();
-            const timestamp = `${now.getFullYear()}${String(now.getMonth()+1).padStart(2,'0')}${String(now.getDate()).padStart(2,'0')}_${String(now.getHours()).padStart(2,'0')}${String(now.getMinutes()).padStart(2,'0')}`;
-            filename += `_${timestamp}`;
+            if (activeShot) setShots(prev => prev.map(s => s.id === activeShot.id ? { ...s, take: s.take + 1 } : s));
+          },
+          onError: (event) => {
+            console.error("Recorder error:", event);
+            stopRecording();
+          }
+        }, take ?? undefined);
+
+        // Optional second file with the clean feed, e.g. graded review copy + clean master
+        if (recordingOutput.alsoRecordClean && recordingOutput.source !== 'clean') {
+          // The clean copy starts at REC; pre-roll and burn-in only go into the main file
+          const cleanRelay = createRelay('clean', frameRate, false);
+          const cleanName = `${filename}_CLEAN`;
+          cleanRelayRef.current = cleanRelay;
+          cleanRecorderRef.current = new SegmentedRecorder(
+            new MediaStream([...cleanRelay.stream.getVideoTracks(), ...audioTracks]),
+            options,
+            limits,
+            {
+              createWriter: index => new TakeWriter(segmentName(cleanName, index), type),
+              onSegment: (blob, { index, startedAt, duration }, writer) => storeTake(blob, {
+                ...info,
+                ...fileMetadata(timecode, markers, startedAt - videoDelayMs, duration),
+                filename: segmentName(cleanName, index),
+                duration
+              }, writer),
+              onStop: () => cleanRelay.stop(),
+              onError: (event) => console.error("Clean recorder error:", event)
+            }
+          );
         }
 
-        const a = document.createElement('a');
-        a.style.display = 'none';
-        a.href = url;
-        a.download = `${filename}.${ext}`;
-        
-        document.body.appendChild(a);
-        a.click();
-        
-        setTimeout(() => {
-          document.body.removeChild(a);
-          window.URL.revokeObjectURL(url);
-        }, 100);
-      };
+        mediaRecorderRef.current = recorder;
+        if (recordingOutput.wavSidecar && audioTracks.length > 0) startWavTake(audioStream, filename, activeShot, markers, false);
+      }
+      // Browsers record one audio track per file, so the others go alongside as WAV
+      startExtraWavTakes(filename, activeShot, markers);
 
-      recorder.start(1000);
-      mediaRecorderRef.current = recorder;
+      if (videoTrack && signalLossRef.current) addMarker('signal', signalLossNote(signalLossRef.current));
       setIsRecording(true);
       
       setRecordingDuration(0);
@@ -220,6 +723,13 @@ export default function App() {
 
     } catch (err) {
       console.error("Failed to start recording:", err);
+      videoRelayRef.current?.stop();
+      videoRelayRef.current = null;
+      if (cleanRecorderRef.current && cleanRecorderRef.current.state !== 'inactive') cleanRecorderRef.current.stop();
+      cleanRecorderRef.current = null;
+      wavTakesRef.current.forEach(t => t.recorder.stop().catch(() => {}));
+      wavTakesRef.current = [];
+      markersRef.current = null;
       alert(`Failed to start recording: ${err instanceof Error ? err.message : String(err)}`);
     }
   };
@@ -228,6 +738,13 @@ export default function App() {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
       mediaRecorderRef.current.stop();
     }
+    if (cleanRecorderRef.current && cleanRecorderRef.current.state !== 'inactive') {
+      cleanRecorderRef.current.stop();
+    }
+    cleanRecorderRef.current = null;
+    cleanRelayRef.current = null;
+    finishWavTakes();
+    markersRef.current = null;
     setIsRecording(false);
     if (recordingTimerRef.current) {
       clearInterval(recordingTimerRef.current);
@@ -235,11 +752,88 @@ export default function App() {
     }
   };
 
+  // --- MARKERS ---
+  const addMarker = (source: MarkerSource, note = '') => {
+    const markers = markersRef.current;
+    if (!markers) return;
+    if (source === 'clipping') {
+      const lastClip = markers.filter(m => m.source === 'clipping').pop();
+      if (lastClip && Date.now() - lastClip.at < CLIP_MARKER_INTERVAL_MS) return;
+    }
+    markers.push(createLiveMarker(source, source === 'manual' ? markerColor : AUTO_MARKER_COLORS[source], note));
+    setLiveMarkers([...markers]);
+  };
+
+  // M drops a marker, unless typing somewhere
+  useEffect(() => {
+    if (!isRecording) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== 'm' || e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      addMarker('manual');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRecording, markerColor]);
+
+  // --- STORAGE ---
+  useEffect(() => {
+    requestPersistentStorage().catch(err => console.warn("Persistent storage not granted", err));
+  }, []);
+
+  // Free space and record time left, polled more often while a take is running
+  useEffect(() => {
+    let cancelled = false;
+    let lastLevel: StorageLevel = 'ok';
+    const update = async () => {
+      if (isRecording) {
+        const bitrates = [mediaRecorderRef.current, cleanRecorderRef.current]
+          .map(r => r && r.state !== 'inactive' ? r.bitrate : null);
+        wavTakesRef.current.forEach(t => bitrates.push(t.recorder.bitrate));
+        const total = bitrates.reduce<number>((sum, b) => sum + (b || 0), 0);
+        if (total > 0) lastBitrateRef.current = total;
+      }
+      try {
+        const status = await readStorageStatus(lastBitrateRef.current);
+        if (cancelled) return;
+        if (isRecording && status.level !== 'ok' && status.level !== lastLevel) {
+          console.warn(`Storage ${status.level}: ${formatRemaining(status.remainingSeconds!)} of recording left`);
+        }
+        lastLevel = status.level;
+        setStorageStatus(status);
+      } catch (err) {
+        console.error("Could not read storage estimate", err);
+      }
+    };
+    update();
+    const timer = window.setInterval(update, isRecording ? STORAGE_POLL_RECORDING_MS : STORAGE_POLL_IDLE_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isRecording]);
+
+  // --- SIGNAL LOSS ---
+  // The relay paints a slate over a lost signal; markers at both ends show the gap in the take and its exports
+  const handleSignalLossChange = (loss: SignalLoss | null) => {
+    signalLossRef.current = loss;
+    videoRelayRef.current?.setSignalLost(loss);
+    cleanRelayRef.current?.setSignalLost(loss);
+    preRollRef.current?.relay?.setSignalLost(loss);
+    if (!mediaRecorderRef.current || mediaRecorderRef.current.state === 'inactive') return;
+    addMarker('signal', loss ? signalLossNote(loss) : SIGNAL_BACK_NOTE);
+  };
+
   // --- AUDIO TRIGGER HANDLER ---
   const handleAudioTrigger = () => {
       console.log("Magic Snap Triggered!");
       // 3 second countdown logic could be added here
+      // Marked at the end of the take it stops, or at the start of the one it starts
+      if (isRecording) addMarker('snap');
       handleToggleRecord();
+      if (!isRecording) addMarker('snap');
   };
 
   return (
@@ -249,8 +843,24 @@ export default function App() {
         <div className="flex items-center gap-3">
             <div className="bg-orange-600 text-white font-bold px-2 py-0.5 rounded text-sm">PRO</div>
             <h1 className="font-semibold text-lg tracking-tight">A6000 MONITOR</h1>
+            <input
+                value={projectNameDraft}
+                onChange={(e) => setProjectNameDraft(e.target.value)}
+                onBlur={commitProjectName}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="ml-2 bg-zinc-900 border border-zinc-800 rounded px-2 py-0.5 text-xs font-mono text-zinc-400 focus:text-white focus:outline-none focus:border-orange-600 w-40"
+                title="Project"
+            />
         </div>
         <div className="flex items-center gap-4">
+            <button
+                onClick={() => setIsLibraryOpen(true)}
+                className="flex items-center gap-2 px-3 py-1 bg-zinc-900 hover:bg-zinc-800 rounded-full border border-zinc-800 text-xs font-mono text-zinc-400"
+                title="Take library"
+            >
+                <Library size={14} />
+                TAKES {library.length > 0 && <span className="text-zinc-200">{library.length}</span>}
+            </button>
             <div className="flex items-center gap-2 px-3 py-1 bg-zinc-900 rounded-full border border-zinc-800">
                 <Wifi size={14} className={connectionState === ConnectionState.CONNECTED ? 'text-blue-500' : 'text-zinc-500'} />
                 <span className="text-xs font-mono text-zinc-400">
@@ -273,14 +883,32 @@ export default function App() {
                     connectionState={connectionState} 
                     settings={settings}
                     isRecording={isRecording}
+                    storageStatus={storageStatus}
+                    timecode={timecode}
+                    markerCount={liveMarkers.length}
+                    onMarker={() => addMarker('manual')}
                     onStreamReady={setVideoStream}
+                    videoInput={videoInput}
+                    onSignalLossChange={handleSignalLossChange}
                     // Production Tools Props
-                    activeLut={activeLut}
+                    lut={activeLutData}
+                    lutInterpolation={lutInterpolation}
                     ghostImage={ghostImage}
                     isGhostVisible={isGhostVisible}
                     isChromaActive={isChromaActive}
+                    chromaColor={chromaColor}
+                    chromaKey={chromaKey}
+                    chromaBackground={chromaBackground}
+                    isPickingChromaColor={isPickingChromaColor}
+                    onPickChromaColor={(hex) => {
+                        setChromaColor(hex);
+                        setIsPickingChromaColor(false);
+                    }}
                     isSyncFlashActive={isSyncFlashActive}
-                    activeGuide={activeGuide}
+                    frameGuides={frameGuides}
+                    exposureAssist={exposureAssist}
+                    scopesPlacement={scopesPlacement}
+                    onChangeScopesPlacement={setScopesPlacement}
                 />
                 
                 {/* Teleprompter Overlay */}
@@ -305,23 +933,31 @@ export default function App() {
                     ))}
                  </div>
                  
-                 {/* Shot List (Placed here for horizontal layout on larger screens) */}
-                 <div className="hidden lg:block">
-                     {/* Can be placed here if we want wide layout, but putting it in sidebar for now */}
-                 </div>
+                 {/* Video Input */}
+                 <VideoSource videoStream={videoStream} settings={videoInput} onChange={setVideoInput} />
              </div>
         </section>
 
         {/* Right Column: Controls & Audio */}
         <section className="lg:col-span-4 flex flex-col gap-6 h-[calc(100vh-6rem)] overflow-hidden">
             
+            {/* Docked Scopes */}
+            {scopesPlacement === 'docked' && (
+              <div className="flex-[0.3] min-h-[200px]">
+                <Scopes lut={activeLutData} lutInterpolation={lutInterpolation} placement={scopesPlacement} onChangePlacement={setScopesPlacement} />
+              </div>
+            )}
+
             {/* Audio Monitor */}
             <div className="flex-[0.4] min-h-[250px]">
                 <AudioMonitor 
                   active={true} 
                   onStreamReady={setAudioStream}
                   isAudioTriggerActive={isAudioTriggerActive}
+                  isRecording={isRecording}
                   onTrigger={handleAudioTrigger}
+                  onClip={() => addMarker('clipping')}
+                  onExtraInputsChange={setExtraAudioInputs}
                 />
             </div>
 
@@ -344,21 +980,52 @@ export default function App() {
                     onUpdate={setSettings}
                     isRecording={isRecording}
                     recordingDuration={recordingDuration}
+                    recordingOutput={recordingOutput}
+                    onChangeRecordingOutput={setRecordingOutput}
+                    storageStatus={storageStatus}
+                    recordingFormat={recordingFormat}
+                    onOpenRecordingFormat={() => setIsFormatDialogOpen(true)}
+                    timecode={timecode}
+                    onChangeTimecode={setTimecode}
+                    markerCount={liveMarkers.length}
+                    markerColor={markerColor}
+                    onChangeMarkerColor={setMarkerColor}
+                    onAddMarker={(note) => addMarker('manual', note)}
                     onToggleRecord={handleToggleRecord}
                     onToggleTeleprompter={() => setShowTeleprompter(prev => !prev)}
                     isTeleprompterActive={showTeleprompter}
                     // Production Tools Props
+                    lutLibrary={lutLibrary}
                     activeLut={activeLut}
                     onChangeLut={setActiveLut}
+                    onImportLut={handleImportLut}
+                    onDeleteLut={handleDeleteLut}
+                    lutInterpolation={lutInterpolation}
+                    onChangeLutInterpolation={setLutInterpolation}
                     isGhostVisible={isGhostVisible}
                     hasGhostImage={!!ghostImage}
                     onCaptureGhost={handleCaptureGhost}
                     onToggleGhost={() => setIsGhostVisible(prev => !prev)}
                     isChromaActive={isChromaActive}
                     onToggleChroma={() => setIsChromaActive(prev => !prev)}
+                    chromaColor={chromaColor}
+                    onChangeChromaColor={setChromaColor}
+                    chromaKey={chromaKey}
+                    onChangeChromaKey={setChromaKey}
+                    isPickingChromaColor={isPickingChromaColor}
+                    onTogglePickChromaColor={() => setIsPickingChromaColor(prev => !prev)}
+                    chromaBackground={chromaBackground}
+                    onChangeChromaBackground={handleChangeChromaBackground}
+                    onPickChromaPlate={handlePickChromaPlate}
                     onSyncSlate={handleSyncSlate}
-                    activeGuide={activeGuide}
-                    onChangeGuide={setActiveGuide}
+                    avOffsetMs={avOffsetMs}
+                    onChangeAvOffset={handleChangeAvOffset}
+                    isCalibratingAvSync={isCalibratingAvSync}
+                    onCalibrateAvSync={handleCalibrateAvSync}
+                    frameGuides={frameGuides}
+                    onChangeFrameGuides={setFrameGuides}
+                    exposureAssist={exposureAssist}
+                    onChangeExposureAssist={setExposureAssist}
                     isAudioTriggerActive={isAudioTriggerActive}
                     onToggleAudioTrigger={() => setIsAudioTriggerActive(prev => !prev)}
                 />
@@ -366,6 +1033,38 @@ export default function App() {
 
         </section>
       </main>
+
+      {isLibraryOpen && (
+        <TakeLibrary
+          takes={library}
+          shots={shots}
+          projectName={projectName}
+          onUpdate={handleUpdateLibraryTake}
+          onDelete={handleDeleteLibraryTakes}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
+      {isFormatDialogOpen && (
+        <RecordingFormatDialog
+          format={recordingFormat}
+          onChange={setRecordingFormat}
+          videoStream={videoStream}
+          audioStream={recordingAudioStream}
+          isRecording={isRecording}
+          onClose={() => setIsFormatDialogOpen(false)}
+        />
+      )}
+
+      {/* Unsaved takes from a previous session */}
+      {orphanedTakes.length > 0 && !isRecoveryDismissed && (
+        <RecoveryDialog
+          takes={orphanedTakes}
+          onRecover={handleRecoverTake}
+          onDiscard={handleDiscardTake}
+          onClose={() => setIsRecoveryDismissed(true)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
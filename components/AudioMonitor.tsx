@@ -1,27 +1,60 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Mic, MicOff, Settings2, AlertCircle, RefreshCw } from 'lucide-react';
-import { AreaChart, Area, YAxis, ResponsiveContainer } from 'recharts';
-import { AudioDevice, PermissionState } from '../types';
+import { Mic, MicOff, Settings2, AlertCircle, RefreshCw, Plus, X, RotateCcw } from 'lucide-react';
+import { AreaChart, Area, YAxis, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { AudioDevice, AudioInput, MeterBallistics, MonitorMode, PermissionState } from '../types';
+import { openAudioInput } from '../utils/audioInputs';
+import { MONITOR_ROUTING, STEREO_ISSUE_LABELS, StereoAnalyzer, StereoIssue } from '../utils/stereoMeter';
+import { CLIP_LEVEL, ChannelMeter, METER_BALLISTICS, METER_FLOOR_DB, dbfsOf, meterFraction, samplePeakOf } from '../utils/levelMeter';
+import { LoudnessMeter, LoudnessReading } from '../utils/loudness';
 
 interface AudioMonitorProps {
   active: boolean;
   onStreamReady?: (stream: MediaStream) => void;
   isAudioTriggerActive: boolean;
+  isRecording?: boolean; // Integrated loudness, range and true peak restart with every take
   onTrigger?: () => void;
+  onClip?: () => void; // Called on every metered over; debounce on the receiving side
+  onExtraInputsChange?: (inputs: AudioInput[]) => void;
 }
 
+const METER_SEGMENTS = 20;
+const LOUDNESS_TARGET = -23; // EBU R128
+const TRUE_PEAK_LIMIT = -1; // dBTP
+const HISTORY_INTERVAL_MS = 500;
+const HISTORY_POINTS = 60; // 30 s
+const EMPTY_LOUDNESS: LoudnessReading = { momentary: null, shortTerm: null, integrated: null, range: null, truePeak: null };
+
+const formatLoudness = (value: number | null) => value === null ? '--' : value.toFixed(1);
+
+const MONITOR_MODES: { mode: MonitorMode; label: string }[] = [
+  { mode: 'off', label: 'OFF' },
+  { mode: 'stereo', label: 'ST' },
+  { mode: 'mono', label: 'L+R' },
+  { mode: 'left', label: 'L' },
+  { mode: 'right', label: 'R' }
+];
+
 // Extend Window interface for Safari support
 interface IWindow extends Window {
   webkitAudioContext: typeof AudioContext;
 }
 
-export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamReady, isAudioTriggerActive, onTrigger }) => {
+export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamReady, isAudioTriggerActive, isRecording, onTrigger, onClip, onExtraInputsChange }) => {
   const [permission, setPermission] = useState<PermissionState>('prompt');
   const [devices, setDevices] = useState<AudioDevice[]>([]);
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>('default');
-  const [levels, setLevels] = useState<{ left: number; right: number }>({ left: 0, right: 0 });
+  // dBFS after ballistics, with peak hold
+  const [levels, setLevels] = useState({ left: METER_FLOOR_DB, right: METER_FLOOR_DB, leftHold: METER_FLOOR_DB, rightHold: METER_FLOOR_DB });
+  const [ballistics, setBallistics] = useState<MeterBallistics>('peak');
+  const [loudness, setLoudness] = useState<LoudnessReading>(EMPTY_LOUDNESS);
+  const [correlation, setCorrelation] = useState(1);
+  const [stereoIssue, setStereoIssue] = useState<StereoIssue | null>(null);
+  const [isMonoSource, setIsMonoSource] = useState(false);
+  const [monitorMode, setMonitorMode] = useState<MonitorMode>('off');
   const [isClipping, setIsClipping] = useState(false);
-  const [historyData, setHistoryData] = useState<{time: number, level: number}[]>([]);
+  const [historyData, setHistoryData] = useState<{time: number, level: number | null}[]>([]);
+  const [extraInputs, setExtraInputs] = useState<AudioInput[]>([]);
+  const [extraLevels, setExtraLevels] = useState<Record<string, number>>({});
 
   // Refs for audio processing
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -30,32 +63,49 @@ export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamRead
   const animationFrameRef = useRef<number>();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // Per-channel meters and the headphone routing, both fed by a channel splitter
+  const channelAnalysersRef = useRef<{ left: AnalyserNode; right: AnalyserNode } | null>(null);
+  const monitorGainsRef = useRef<GainNode[]>([]);
+  const stereoAnalyzerRef = useRef(new StereoAnalyzer());
+  const monitorModeRef = useRef(monitorMode);
+  monitorModeRef.current = monitorMode;
+  const channelMetersRef = useRef({ left: new ChannelMeter(), right: new ChannelMeter() });
+  const ballisticsRef = useRef(ballistics);
+  ballisticsRef.current = ballistics;
+  const loudnessRef = useRef<LoudnessMeter | null>(null);
+  const lastHistoryAtRef = useRef(0);
+  // Extra inputs are metered in their own context, which survives main device changes
+  const extraContextRef = useRef<AudioContext | null>(null);
+  const extraMetersRef = useRef(new Map<string, { stream: MediaStream; analyser: AnalyserNode }>());
 
   // CLAP DETECTION REFS
   const lastClapTimeRef = useRef<number>(0);
   const clapCountRef = useRef<number>(0);
 
+  // The draw loop keeps running from the render that started it: read the
+  // latest trigger state and callbacks through a ref
+  const latestRef = useRef({ isAudioTriggerActive, onTrigger, onClip });
+  latestRef.current = { isAudioTriggerActive, onTrigger, onClip };
+
+  useEffect(() => {
+    onExtraInputsChange?.(extraInputs);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [extraInputs]);
+
   // Initialize Audio
   const initAudio = async (deviceId?: string) => {
     try {
       if (audioContextRef.current) {
         await audioContextRef.current.close();
       }
+      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
       
       // Stop previous tracks if they exist
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(t => t.stop());
       }
 
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          deviceId: deviceId ? { exact: deviceId } : undefined,
-          echoCancellation: false,
-          autoGainControl: false,
-          noiseSuppression: false,
-          channelCount: 2
-        }
-      });
+      const stream = await openAudioInput(deviceId);
       
       streamRef.current = stream;
       if (onStreamReady) onStreamReady(stream);
@@ -71,9 +121,43 @@ export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamRead
       
       source.connect(analyser);
 
+      // A mono device has nothing on the splitter's second output: meter and
+      // monitor its one channel on both sides instead of flagging it as dead
+      const isMono = stream.getAudioTracks()[0]?.getSettings().channelCount === 1;
+      const rightOutput = isMono ? 0 : 1;
+      const splitter = audioCtx.createChannelSplitter(2);
+      source.connect(splitter);
+      const left = audioCtx.createAnalyser();
+      const right = audioCtx.createAnalyser();
+      left.fftSize = 2048;
+      right.fftSize = 2048;
+      splitter.connect(left, 0);
+      splitter.connect(right, rightOutput);
+
+      const merger = audioCtx.createChannelMerger(2);
+      const routing = MONITOR_ROUTING[monitorModeRef.current];
+      const gains = ([[0, 0], [rightOutput, 0], [0, 1], [rightOutput, 1]] as const).map(([from, to], i) => {
+        const gain = audioCtx.createGain();
+        gain.gain.value = routing[i];
+        splitter.connect(gain, from);
+        gain.connect(merger, 0, to);
+        return gain;
+      });
+      merger.connect(audioCtx.destination);
+
+      loudnessRef.current?.stop();
+      const loudnessMeter = new LoudnessMeter(audioCtx, source, isMono ? 1 : 2);
+      loudnessMeter.ready.catch(err => console.error("Loudness meter unavailable:", err));
+      loudnessRef.current = loudnessMeter;
+
       audioContextRef.current = audioCtx;
       analyserRef.current = analyser;
       sourceRef.current = source;
+      channelAnalysersRef.current = { left, right };
+      monitorGainsRef.current = gains;
+      stereoAnalyzerRef.current = new StereoAnalyzer();
+      setIsMonoSource(isMono);
+      setStereoIssue(null);
 
       updateDevices();
       draw();
@@ -83,6 +167,59 @@ export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamRead
     }
   };
 
+  const resetLoudness = () => {
+    loudnessRef.current?.reset();
+    setHistoryData([]);
+  };
+
+  useEffect(() => {
+    if (isRecording) resetLoudness();
+  }, [isRecording]);
+
+  useEffect(() => {
+    const routing = MONITOR_ROUTING[monitorMode];
+    monitorGainsRef.current.forEach((gain, i) => { gain.gain.value = routing[i]; });
+  }, [monitorMode]);
+
+  // --- EXTRA INPUTS ---
+  const addExtraInput = async (deviceId: string) => {
+    const device = devices.find(d => d.deviceId === deviceId);
+    try {
+      const stream = await openAudioInput(deviceId);
+      const AudioContextClass = window.AudioContext || (window as unknown as IWindow).webkitAudioContext;
+      const context = extraContextRef.current ?? new AudioContextClass();
+      extraContextRef.current = context;
+      if (context.state === 'suspended') await context.resume();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 2048;
+      context.createMediaStreamSource(stream).connect(analyser);
+      extraMetersRef.current.set(deviceId, { stream, analyser });
+      setExtraInputs(prev => [...prev, { deviceId, label: device?.label ?? 'Input', stream, record: true }]);
+    } catch (err) {
+      console.error("Could not open audio input:", err);
+      alert(`Could not open ${device?.label ?? 'the input'} next to the main mic: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const removeExtraInput = (deviceId: string) => {
+    const meter = extraMetersRef.current.get(deviceId);
+    if (meter) {
+      meter.stream.getTracks().forEach(t => t.stop());
+      meter.analyser.disconnect();
+      extraMetersRef.current.delete(deviceId);
+    }
+    setExtraInputs(prev => prev.filter(i => i.deviceId !== deviceId));
+  };
+
+  const toggleExtraRecord = (deviceId: string) => {
+    setExtraInputs(prev => prev.map(i => i.deviceId === deviceId ? { ...i, record: !i.record } : i));
+  };
+
+  useEffect(() => () => {
+    extraMetersRef.current.forEach(({ stream }) => stream.getTracks().forEach(t => t.stop()));
+    extraContextRef.current?.close();
+  }, []);
+
   const updateDevices = async () => {
     try {
       const devs = await navigator.mediaDevices.enumerateDevices();
@@ -110,28 +247,45 @@ export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamRead
     const dataArray = new Uint8Array(bufferLength);
     analyserRef.current.getByteTimeDomainData(dataArray);
 
-    // Calculate RMS for VU Meter
-    let sum = 0;
+    // Peak of the whole input, for clap detection
     let peak = 0;
     for (let i = 0; i < bufferLength; i++) {
-        const x = (dataArray[i] - 128) / 128.0;
-        const absX = Math.abs(x);
+        const absX = Math.abs((dataArray[i] - 128) / 128.0);
         if (absX > peak) peak = absX;
-        sum += x * x;
     }
-    const rms = Math.sqrt(sum / bufferLength);
-    // Convert to dB-ish (0 to 1 scale roughly)
-    const val = Math.min(1, rms * 5); // Gain boost for visibility
-    
-    // Check Clipping
-    if (val > 0.95) {
+
+    // Each channel metered on its own, from the splitter
+    const frameTime = performance.now();
+    let isOver = false;
+    const channels = channelAnalysersRef.current;
+    if (channels) {
+        const leftData = new Float32Array(channels.left.fftSize);
+        const rightData = new Float32Array(channels.right.fftSize);
+        channels.left.getFloatTimeDomainData(leftData);
+        channels.right.getFloatTimeDomainData(rightData);
+        const sampleRate = channels.left.context.sampleRate;
+        const meters = channelMetersRef.current;
+        meters.left.update(leftData, sampleRate, ballisticsRef.current, frameTime);
+        meters.right.update(rightData, sampleRate, ballisticsRef.current, frameTime);
+        setLevels({ left: meters.left.level, right: meters.right.level, leftHold: meters.left.hold, rightHold: meters.right.hold });
+        isOver = samplePeakOf(leftData) >= CLIP_LEVEL || samplePeakOf(rightData) >= CLIP_LEVEL;
+
+        const analyzer = stereoAnalyzerRef.current;
+        const issue = analyzer.update(leftData, rightData, frameTime);
+        setStereoIssue(issue);
+        setCorrelation(analyzer.correlation);
+    }
+
+    // Check Clipping: a sample at digital full scale
+    if (isOver) {
         setIsClipping(true);
         setTimeout(() => setIsClipping(false), 1000);
+        latestRef.current.onClip?.();
     }
 
     // --- DOUBLE CLAP DETECTION ---
     // If Audio Trigger is active
-    if (isAudioTriggerActive && peak > 0.6) { // Threshold for a "loud" noise (clap)
+    if (latestRef.current.isAudioTriggerActive && peak > 0.6) { // Threshold for a "loud" noise (clap)
         const now = Date.now();
         // Debounce: ensure claps are distinct (at least 100ms apart)
         if (now - lastClapTimeRef.current > 100) {
@@ -140,7 +294,7 @@ export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamRead
             if (now - lastClapTimeRef.current < 800) {
                  // Double clap detected!
                  console.log("DOUBLE CLAP DETECTED! TRIGGER!");
-                 if (onTrigger) onTrigger();
+                 latestRef.current.onTrigger?.();
                  lastClapTimeRef.current = 0; // Reset
             } else {
                  // First clap or too late for double
@@ -149,16 +303,25 @@ export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamRead
         }
     }
 
-    setLevels({
-        left: val,
-        right: val * (0.9 + Math.random() * 0.2) // Simulate slight stereo variance
-    });
+    if (extraMetersRef.current.size > 0) {
+        const extraData = new Float32Array(2048);
+        const next: Record<string, number> = {};
+        extraMetersRef.current.forEach(({ analyser }, deviceId) => {
+            analyser.getFloatTimeDomainData(extraData);
+            next[deviceId] = dbfsOf(samplePeakOf(extraData));
+        });
+        setExtraLevels(next);
+    }
 
-    // Update History Graph (every 5 frames to save perf)
-    if (Math.random() > 0.8) {
+    // Loudness readings, and the short-term loudness timeline twice a second
+    const reading = loudnessRef.current?.reading ?? EMPTY_LOUDNESS;
+    setLoudness(reading);
+    if (frameTime - lastHistoryAtRef.current >= HISTORY_INTERVAL_MS) {
+        lastHistoryAtRef.current = frameTime;
         setHistoryData(prev => {
-            const next = [...prev, { time: Date.now(), level: val * 100 }];
-            if (next.length > 50) next.shift();
+            const level = reading.shortTerm === null ? null : Math.max(METER_FLOOR_DB, reading.shortTerm);
+            const next = [...prev, { time: Date.now(), level }];
+            if (next.length > HISTORY_POINTS) next.shift();
             return next;
         });
     }
@@ -175,7 +338,7 @@ export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamRead
             ctx.fillRect(0, 0, width, height);
 
             ctx.lineWidth = 2;
-            ctx.strokeStyle = isAudioTriggerActive ? '#ec4899' : '#f97316'; // Pink if Trigger Active, else Orange
+            ctx.strokeStyle = latestRef.current.isAudioTriggerActive ? '#ec4899' : '#f97316'; // Pink if Trigger Active, else Orange
             ctx.beginPath();
 
             const sliceWidth = width * 1.0 / bufferLength;
@@ -214,18 +377,41 @@ export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamRead
 
   const handleDeviceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const newId = e.target.value;
+    // A device is either the main mic or an extra input, not both
+    if (extraMetersRef.current.has(newId)) removeExtraInput(newId);
     setSelectedDeviceId(newId);
     initAudio(newId);
   };
 
+  // 'default' and 'communications' are aliases of real devices
+  const addableDevices = devices.filter(d =>
+    !['default', 'communications', selectedDeviceId].includes(d.deviceId) && !extraInputs.some(i => i.deviceId === d.deviceId)
+  );
+
   // UI Components helpers
-  const getBarColor = (val: number, index: number, total: number) => {
-      const pct = index / total;
-      if (pct > 0.85) return 'bg-red-500';
-      if (pct > 0.6) return 'bg-yellow-500';
+  // By dBFS: red close to full scale, yellow above -18 dBFS (EBU alignment level)
+  const getBarColor = (db: number) => {
+      if (db > -6) return 'bg-red-500';
+      if (db > -18) return 'bg-yellow-500';
       return 'bg-green-500';
   };
 
+  const segmentDb = METER_FLOOR_DB / METER_SEGMENTS; // Negative: dB per segment, top down
+  const renderMeter = (level: number, hold: number, label: string) => (
+      <div className="flex flex-col items-center h-full w-4 gap-[1px]">
+           {Array.from({ length: METER_SEGMENTS }).map((_, i) => {
+               const top = i * segmentDb;
+               const bottom = top + segmentDb;
+               const active = level > bottom;
+               const held = !active && hold > bottom && hold <= top;
+               return (
+                   <div key={`${label}-${i}`} className={`w-full h-full flex-1 rounded-[1px] ${active ? getBarColor(top) : held ? 'bg-zinc-300' : 'bg-zinc-900'}`}></div>
+               );
+           })}
+           <span className="text-[10px] text-zinc-500 font-mono mt-1">{label}</span>
+      </div>
+  );
+
   return (
     <div className={`bg-zinc-900 border rounded-lg p-4 flex flex-col h-full shadow-lg overflow-hidden transition-colors duration-500 ${isAudioTriggerActive ? 'border-pink-500/30' : 'border-zinc-800'}`}>
       <div className="flex justify-between items-center mb-4 border-b border-zinc-800 pb-2">
@@ -275,6 +461,47 @@ export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamRead
                 </button>
             </div>
 
+            {/* Extra Inputs (e.g. camera audio over HDMI) */}
+            {extraInputs.map(input => (
+                <div key={input.deviceId} className="flex items-center gap-2">
+                    <span className="w-4 text-center text-xs">{devices.find(d => d.deviceId === input.deviceId)?.isExternal ? '📡' : '🎤'}</span>
+                    <span className="text-[10px] font-mono text-zinc-400 truncate w-28" title={input.label}>{input.label}</span>
+                    <div className="flex-1 h-1.5 bg-zinc-950 rounded-full overflow-hidden">
+                        <div
+                            className={`h-full ${getBarColor(extraLevels[input.deviceId] ?? METER_FLOOR_DB)}`}
+                            style={{ width: `${meterFraction(extraLevels[input.deviceId] ?? METER_FLOOR_DB) * 100}%` }}
+                        />
+                    </div>
+                    <button
+                        onClick={() => toggleExtraRecord(input.deviceId)}
+                        className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${input.record ? 'bg-red-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'}`}
+                        title="Record this input to its own WAV file with every take (from the next take)"
+                    >
+                        REC
+                    </button>
+                    <button onClick={() => removeExtraInput(input.deviceId)} className="p-0.5 hover:bg-zinc-800 rounded text-zinc-500" title="Close input">
+                        <X size={12} />
+                    </button>
+                </div>
+            ))}
+            {addableDevices.length > 0 && (
+                <div className="flex items-center gap-2">
+                    <Plus className="w-4 h-4 text-zinc-500" />
+                    <select
+                        value=""
+                        onChange={(e) => { if (e.target.value) addExtraInput(e.target.value); }}
+                        className="bg-zinc-950 text-[10px] text-zinc-500 border border-zinc-800 rounded px-2 py-1 flex-1 outline-none focus:border-orange-500"
+                    >
+                        <option value="">Add input (e.g. camera audio over HDMI)</option>
+                        {addableDevices.map(d => (
+                            <option key={d.deviceId} value={d.deviceId}>
+                                {d.isExternal ? '📡 ' : '🎤 '}{d.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
             {/* Main Visualizer Area */}
             <div className="grid grid-cols-1 md:grid-cols-[1fr_80px] gap-4 flex-1 min-h-0">
                 
@@ -288,11 +515,13 @@ export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamRead
                      
                      {/* Loudness History */}
                      <div className="h-32 bg-black border border-zinc-800 rounded relative w-full overflow-hidden flex-shrink-0">
-                        <span className="absolute top-1 left-1 text-[10px] text-zinc-600 font-mono z-10">LOUDNESS HISTORY (30s)</span>
+                        <span className="absolute top-1 left-1 text-[10px] text-zinc-600 font-mono z-10">SHORT-TERM LUFS (30s)</span>
+                        <span className="absolute top-1 right-1 text-[10px] text-orange-500/70 font-mono z-10">{LOUDNESS_TARGET}</span>
                         <ResponsiveContainer width="100%" height="100%" minWidth={0}>
                             <AreaChart data={historyData}>
-                                <YAxis hide domain={[0, 100]} />
-                                <Area type="monotone" dataKey="level" stroke="#3f3f46" fill="#18181b" strokeWidth={1} isAnimationActive={false} />
+                                <YAxis hide domain={[METER_FLOOR_DB, 0]} />
+                                <ReferenceLine y={LOUDNESS_TARGET} stroke="#f97316" strokeOpacity={0.5} strokeDasharray="3 3" />
+                                <Area type="monotone" dataKey="level" stroke="#71717a" fill="#27272a" strokeWidth={1} isAnimationActive={false} baseValue={METER_FLOOR_DB} />
                             </AreaChart>
                         </ResponsiveContainer>
                      </div>
@@ -303,33 +532,102 @@ export const AudioMonitor: React.FC<AudioMonitorProps> = ({ active, onStreamRead
                     {/* Clipping Indicator */}
                     <div className={`absolute top-0 inset-x-0 h-4 ${isClipping ? 'bg-red-600' : 'bg-transparent'} transition-colors duration-100`}></div>
                     
-                    {/* Left Channel */}
-                    <div className="flex flex-col items-center h-full w-4 gap-[1px]">
-                         {Array.from({ length: 20 }).map((_, i) => {
-                             const threshold = (20 - i) / 20;
-                             const active = levels.left >= threshold;
-                             return (
-                                 <div key={`L-${i}`} className={`w-full h-full flex-1 rounded-[1px] ${active ? getBarColor(levels.left, 20-i, 20) : 'bg-zinc-900'}`}></div>
-                             );
-                         })}
-                         <span className="text-[10px] text-zinc-500 font-mono mt-1">L</span>
+                    {renderMeter(levels.left, levels.leftHold, 'L')}
+                    {renderMeter(levels.right, levels.rightHold, 'R')}
+
+                    {/* dBFS Scale */}
+                    <div className="flex flex-col items-center h-full w-5">
+                         <div className="relative flex-1 w-full">
+                             {[0, -6, -18, -30, -45, -60].map(db => (
+                                 <span
+                                     key={db}
+                                     className="absolute right-0 -translate-y-1/2 text-[8px] leading-none text-zinc-600 font-mono"
+                                     style={{ top: `${(1 - meterFraction(db)) * 100}%` }}
+                                 >
+                                     {db}
+                                 </span>
+                             ))}
+                         </div>
+                         <span className="text-[10px] text-zinc-600 font-mono mt-1">dB</span>
                     </div>
+                </div>
+
+            </div>
 
-                    {/* Right Channel */}
-                    <div className="flex flex-col items-center h-full w-4 gap-[1px]">
-                         {Array.from({ length: 20 }).map((_, i) => {
-                             const threshold = (20 - i) / 20;
-                             const active = levels.right >= threshold;
-                             return (
-                                 <div key={`R-${i}`} className={`w-full h-full flex-1 rounded-[1px] ${active ? getBarColor(levels.right, 20-i, 20) : 'bg-zinc-900'}`}></div>
-                             );
-                         })}
-                         <span className="text-[10px] text-zinc-500 font-mono mt-1">R</span>
+            {/* Stereo: one-sided/phase warning, correlation meter and headphone routing */}
+            {stereoIssue && (
+                <div className="flex items-center gap-2 bg-yellow-500/10 border border-yellow-500/40 rounded px-2 py-1 text-[10px] font-mono font-bold text-yellow-500">
+                    <AlertCircle size={12} /> {STEREO_ISSUE_LABELS[stereoIssue]}
+                </div>
+            )}
+            <div className="flex items-center gap-2">
+                <span className="text-[10px] text-zinc-500 font-mono w-10" title="L/R correlation: +1 mono, 0 wide stereo, below 0 phase problems">PHASE</span>
+                {isMonoSource ? (
+                    <span className="flex-1 text-[10px] text-zinc-600 font-mono">MONO INPUT</span>
+                ) : (
+                    <div className="flex-1 h-2 bg-zinc-950 border border-zinc-800 rounded-full relative">
+                        <div className="absolute inset-y-0 left-1/2 w-px bg-zinc-700"></div>
+                        <div
+                            className={`absolute top-0 bottom-0 w-1.5 -ml-[3px] rounded-full ${correlation < 0 ? 'bg-red-500' : correlation < 0.3 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                            style={{ left: `${(correlation + 1) / 2 * 100}%` }}
+                        />
                     </div>
+                )}
+                <div className="flex items-center gap-1" title="Headphone monitoring of the main input">
+                    {MONITOR_MODES.map(({ mode, label }) => (
+                        <button
+                            key={mode}
+                            onClick={() => setMonitorMode(mode)}
+                            className={`px-1.5 py-0.5 rounded text-[9px] font-bold font-mono ${
+                                monitorMode === mode ? 'bg-orange-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                            }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
                 </div>
-
             </div>
             
+            {/* EBU R128 Loudness */}
+            <div className="grid grid-cols-5 gap-1 text-center font-mono">
+                {([
+                    ['M', loudness.momentary, 'Momentary loudness (400 ms), LUFS', ''],
+                    ['S', loudness.shortTerm, 'Short-term loudness (3 s), LUFS', ''],
+                    ['I', loudness.integrated, 'Integrated loudness since REC or reset, LUFS', loudness.integrated !== null && Math.abs(loudness.integrated - LOUDNESS_TARGET) <= 1 ? 'text-green-500' : ''],
+                    ['LRA', loudness.range, 'Loudness range since REC or reset, LU', ''],
+                    ['TP', loudness.truePeak, 'Highest true peak since REC or reset, dBTP', loudness.truePeak !== null && loudness.truePeak > TRUE_PEAK_LIMIT ? 'text-red-500' : '']
+                ] as const).map(([label, value, title, color]) => (
+                    <div key={label} className="bg-zinc-950 border border-zinc-800 rounded px-1 py-0.5" title={title}>
+                        <div className="text-[8px] text-zinc-600">{label}</div>
+                        <div className={`text-[11px] tabular-nums ${color || 'text-zinc-300'}`}>{formatLoudness(value)}</div>
+                    </div>
+                ))}
+            </div>
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-1">
+                    <span className="text-[10px] text-zinc-500 font-mono mr-1">METER</span>
+                    {METER_BALLISTICS.map(option => (
+                        <button
+                            key={option.ballistics}
+                            onClick={() => setBallistics(option.ballistics)}
+                            className={`px-1.5 py-0.5 rounded text-[9px] font-bold font-mono ${
+                                ballistics === option.ballistics ? 'bg-orange-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                            }`}
+                            title={option.title}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <button
+                    onClick={resetLoudness}
+                    className="flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] font-bold bg-zinc-800 text-zinc-500 hover:bg-zinc-700"
+                    title="Restart integrated loudness, range and true peak (also done at every REC)"
+                >
+                    <RotateCcw size={10} /> RESET
+                </button>
+            </div>
+
             {/* Legend / Status */}
             <div className="flex justify-between text-[10px] text-zinc-500 font-mono mt-auto pt-2">
                 <span>Sample Rate: 48kHz</span>
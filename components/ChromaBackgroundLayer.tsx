@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { ChromaBackground } from '../types';
+import { loadPlateMedia } from '../utils/plates';
+
+interface ChromaBackgroundLayerProps {
+  background: ChromaBackground;
+}
+
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundImage: 'conic-gradient(#7a7a7a 25%, #b4b4b4 0 50%, #7a7a7a 0 75%, #b4b4b4 0)',
+  backgroundSize: '32px 32px'
+};
+
+export const ChromaBackgroundLayer: React.FC<ChromaBackgroundLayerProps> = ({ background }) => {
+  const [mediaUrl, setMediaUrl] = useState<string | null>(null);
+  const { kind, mediaId, color, offsetX, offsetY, scale } = background;
+
+  // Resolve the stored plate file to an object URL
+  useEffect(() => {
+    if ((kind !== 'image' && kind !== 'video') || !mediaId) {
+      setMediaUrl(null);
+      return;
+    }
+    let url: string | null = null;
+    let isActive = true;
+    loadPlateMedia(mediaId)
+      .then(blob => {
+        if (!isActive || !blob) return;
+        url = URL.createObjectURL(blob);
+        setMediaUrl(url);
+      })
+      .catch(err => console.error("Could not load background plate", err));
+    return () => {
+      isActive = false;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [kind, mediaId]);
+
+  const transform = { transform: `translate(${offsetX}%, ${offsetY}%) scale(${scale})` };
+
+  return (
+    <div className="absolute inset-0 z-0 overflow-hidden bg-black" style={kind === 'checkerboard' ? CHECKERBOARD_STYLE : kind === 'solid' ? { backgroundColor: color } : undefined}>
+      {kind === 'image' && mediaUrl && (
+        <img id="live-plate-element" src={mediaUrl} alt="Background plate" className="w-full h-full object-cover" style={transform} />
+      )}
+      {kind === 'video' && mediaUrl && (
+        <video id="live-plate-element" src={mediaUrl} className="w-full h-full object-cover" style={transform} autoPlay loop muted playsInline />
+      )}
+      {(kind === 'image' || kind === 'video') && !mediaUrl && (
+        <div className="w-full h-full flex items-center justify-center text-zinc-600 font-mono text-xs">NO BACKGROUND PLATE SELECTED</div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,15 @@
-import React from 'react';
-import { CameraSettings, LutPreset, AspectRatioGuide } from '../types';
-import { Camera, Aperture, Timer, Sun, PlayCircle, StopCircle, Type, Ghost, Clapperboard, Palette, ImagePlus, Zap, Smartphone, Monitor, Hand } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { CameraSettings, Lut, LutPreset, LutInterpolation, AspectRatioGuide, FrameGuideSettings, ExposureAssistSettings, ExposureProfile, ChromaKeySettings, ChromaBackground, ChromaBackgroundKind, RecordingOutputSettings, RecordingSource, RecordingFormat, WavBitDepth, TimecodeSettings, MarkerColor } from '../types';
+import { Camera, Aperture, Timer, Sun, PlayCircle, StopCircle, Type, Ghost, Clapperboard, Palette, ImagePlus, Zap, Frame, Hand, SunDim, Upload, X, Pipette, Film, Settings2, Clock, Bookmark } from 'lucide-react';
+import { ZEBRA_PRESETS } from '../utils/exposure';
+import { CHROMA_PRESETS } from '../utils/chromaKey';
+import { FRAME_GUIDE_PRESETS, formatRatio } from '../utils/frameGuides';
+import { StorageStatus, formatBytes, formatRemaining } from '../utils/recordingStorage';
+import { VIDEO_CODEC_LABELS } from '../utils/recordingFormat';
+import { TIMECODE_RATES, TIMECODE_RATE_LIST, framesToTimecode, timecodeAt, timecodeSecondsAt, timecodeToFrames } from '../utils/timecode';
+import { MARKER_COLORS } from '../utils/markers';
+import { clampAvOffset } from '../utils/avSync';
+import { TimecodeDisplay } from './TimecodeDisplay';
 
 interface ControlPanelProps {
   settings: CameraSettings;
@@ -8,6 +17,17 @@ interface ControlPanelProps {
   onToggleRecord: () => void;
   isRecording: boolean;
   recordingDuration?: number;
+  recordingOutput: RecordingOutputSettings;
+  onChangeRecordingOutput: (settings: RecordingOutputSettings) => void;
+  storageStatus: StorageStatus | null;
+  recordingFormat: RecordingFormat;
+  onOpenRecordingFormat: () => void;
+  timecode: TimecodeSettings;
+  onChangeTimecode: (settings: TimecodeSettings) => void;
+  markerCount: number;
+  markerColor: MarkerColor;
+  onChangeMarkerColor: (color: MarkerColor) => void;
+  onAddMarker: (note: string) => void;
   onToggleTeleprompter: () => void;
   isTeleprompterActive: boolean;
   // New Props
@@ -15,39 +35,129 @@ interface ControlPanelProps {
   onToggleGhost: () => void;
   isGhostVisible: boolean;
   hasGhostImage: boolean;
+  lutLibrary: Lut[];
   activeLut: LutPreset;
   onChangeLut: (lut: LutPreset) => void;
+  onImportLut: (file: File) => void;
+  onDeleteLut: (id: string) => void;
+  lutInterpolation: LutInterpolation;
+  onChangeLutInterpolation: (interpolation: LutInterpolation) => void;
   onToggleChroma: () => void;
   isChromaActive: boolean;
+  chromaColor: string;
+  onChangeChromaColor: (hex: string) => void;
+  chromaKey: ChromaKeySettings;
+  onChangeChromaKey: (settings: ChromaKeySettings) => void;
+  isPickingChromaColor: boolean;
+  onTogglePickChromaColor: () => void;
+  chromaBackground: ChromaBackground;
+  onChangeChromaBackground: (background: ChromaBackground) => void;
+  onPickChromaPlate: (file: File) => void;
   onSyncSlate: () => void;
-  activeGuide: AspectRatioGuide;
-  onChangeGuide: (guide: AspectRatioGuide) => void;
+  avOffsetMs: number;
+  onChangeAvOffset: (offsetMs: number) => void;
+  isCalibratingAvSync: boolean;
+  onCalibrateAvSync: () => void;
+  frameGuides: FrameGuideSettings;
+  onChangeFrameGuides: (settings: FrameGuideSettings) => void;
   isAudioTriggerActive: boolean;
   onToggleAudioTrigger: () => void;
+  exposureAssist: ExposureAssistSettings;
+  onChangeExposureAssist: (settings: ExposureAssistSettings) => void;
 }
 
+const RECORDING_SOURCES: { source: RecordingSource; label: string; title: string }[] = [
+  { source: 'clean', label: 'CLEAN', title: 'Untouched camera feed' },
+  { source: 'graded', label: 'GRADED', title: 'Active LUT baked in' },
+  { source: 'composite', label: 'COMP', title: 'Chroma composite (graded)' },
+  { source: 'program', label: 'PROGRAM', title: 'Composite with burned-in overlays' }
+];
+
+const PRE_ROLL_OPTIONS = [0, 3, 5, 10, 20, 30];
+
+// Segment rollover: by duration or by file size
+const SPLIT_OPTIONS: { label: string; minutes: number; megabytes: number }[] = [
+  { label: 'OFF', minutes: 0, megabytes: 0 },
+  { label: '10m', minutes: 10, megabytes: 0 },
+  { label: '30m', minutes: 30, megabytes: 0 },
+  { label: '500MB', minutes: 0, megabytes: 500 },
+  { label: '2GB', minutes: 0, megabytes: 2000 }
+];
+
+const WAV_BIT_DEPTHS: { bitDepth: WavBitDepth; label: string }[] = [
+  { bitDepth: 16, label: '16' },
+  { bitDepth: 24, label: '24' },
+  { bitDepth: 32, label: '32F' }
+];
+
+// Fine enough for lip sync, about a quarter of a frame at 25 fps
+const AV_OFFSET_STEP_MS = 10;
+
+const BACKGROUND_KINDS: { kind: ChromaBackgroundKind; label: string }[] = [
+  { kind: 'image', label: 'IMG' },
+  { kind: 'video', label: 'VID' },
+  { kind: 'solid', label: 'SOLID' },
+  { kind: 'checkerboard', label: 'CHECK' }
+];
+
 export const ControlPanel: React.FC<ControlPanelProps> = ({ 
   settings, 
   onUpdate, 
   onToggleRecord, 
   isRecording,
   recordingDuration = 0,
+  recordingOutput,
+  onChangeRecordingOutput,
+  storageStatus,
+  recordingFormat,
+  onOpenRecordingFormat,
+  timecode,
+  onChangeTimecode,
+  markerCount,
+  markerColor,
+  onChangeMarkerColor,
+  onAddMarker,
   onToggleTeleprompter,
   isTeleprompterActive,
   onCaptureGhost,
   onToggleGhost,
   isGhostVisible,
   hasGhostImage,
+  lutLibrary,
   activeLut,
   onChangeLut,
+  onImportLut,
+  onDeleteLut,
+  lutInterpolation,
+  onChangeLutInterpolation,
   onToggleChroma,
   isChromaActive,
+  chromaColor,
+  onChangeChromaColor,
+  chromaKey,
+  onChangeChromaKey,
+  isPickingChromaColor,
+  onTogglePickChromaColor,
+  chromaBackground,
+  onChangeChromaBackground,
+  onPickChromaPlate,
   onSyncSlate,
-  activeGuide,
-  onChangeGuide,
+  avOffsetMs,
+  onChangeAvOffset,
+  isCalibratingAvSync,
+  onCalibrateAvSync,
+  frameGuides,
+  onChangeFrameGuides,
   isAudioTriggerActive,
-  onToggleAudioTrigger
+  onToggleAudioTrigger,
+  exposureAssist,
+  onChangeExposureAssist
 }) => {
+  const lutInputRef = useRef<HTMLInputElement>(null);
+  const plateInputRef = useRef<HTMLInputElement>(null);
+  const [customRatioInput, setCustomRatioInput] = useState('');
+  const [jamInput, setJamInput] = useState('');
+  const [markerNote, setMarkerNote] = useState('');
   
   const adjustISO = (delta: number) => {
       const newVal = Math.max(100, Math.min(25600, settings.iso + delta));
@@ -65,12 +175,79 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
   };
 
-  // Cycle through guides: None -> 9:16 -> 4:5 -> 1:1 -> None
-  const toggleGuide = () => {
-    if (activeGuide === 'none') onChangeGuide('9:16');
-    else if (activeGuide === '9:16') onChangeGuide('4:5');
-    else if (activeGuide === '4:5') onChangeGuide('1:1');
-    else onChangeGuide('none');
+  // Free-run keeps counting from where it is when the rate changes
+  const changeTimecodeRate = (rate: TimecodeSettings['rate']) => {
+    if (timecode.mode === 'tod') {
+      onChangeTimecode({ ...timecode, rate });
+      return;
+    }
+    const now = new Date();
+    const frames = timecodeSecondsAt(timecode, now) * TIMECODE_RATES[rate].fps;
+    onChangeTimecode({ ...timecode, rate, freeRunStart: framesToTimecode(frames, rate), freeRunStartedAt: now.getTime() });
+  };
+
+  // Free-run from a typed value, or from the current time of day when empty
+  const jamTimecode = () => {
+    const now = new Date();
+    const start = jamInput.trim() || timecodeAt({ ...timecode, mode: 'tod' }, now);
+    if (timecodeToFrames(start, timecode.rate) === null) {
+      alert(`"${jamInput}" is not a valid timecode at ${timecode.rate} fps. Use HH:MM:SS:FF`);
+      return;
+    }
+    setJamInput('');
+    onChangeTimecode({ ...timecode, mode: 'freerun', freeRunStart: start, freeRunStartedAt: now.getTime() });
+  };
+
+  const addMarker = () => {
+    onAddMarker(markerNote);
+    setMarkerNote('');
+  };
+
+  const toggleFrameRatio = (guide: AspectRatioGuide) => {
+    const ratios = frameGuides.ratios.includes(guide)
+      ? frameGuides.ratios.filter(r => r !== guide)
+      : [...frameGuides.ratios, guide];
+    onChangeFrameGuides({ ...frameGuides, ratios });
+  };
+
+  const addCustomRatio = () => {
+    const guide = formatRatio(customRatioInput);
+    if (!guide) {
+      alert(`"${customRatioInput}" is not a valid ratio. Use W:H, e.g. 2.35:1`);
+      return;
+    }
+    setCustomRatioInput('');
+    if (FRAME_GUIDE_PRESETS.includes(guide) || frameGuides.customRatios.includes(guide)) {
+      if (!frameGuides.ratios.includes(guide)) toggleFrameRatio(guide);
+      return;
+    }
+    onChangeFrameGuides({
+      ...frameGuides,
+      customRatios: [...frameGuides.customRatios, guide],
+      ratios: [...frameGuides.ratios, guide]
+    });
+  };
+
+  const removeCustomRatio = (guide: AspectRatioGuide) => {
+    onChangeFrameGuides({
+      ...frameGuides,
+      customRatios: frameGuides.customRatios.filter(r => r !== guide),
+      ratios: frameGuides.ratios.filter(r => r !== guide)
+    });
+  };
+
+  const changeExposureProfile = (profile: ExposureProfile) => {
+    onChangeExposureAssist({
+      ...exposureAssist,
+      profile,
+      zebraLow: ZEBRA_PRESETS[profile].low,
+      zebraHigh: ZEBRA_PRESETS[profile].high
+    });
+  };
+
+  const adjustZebra = (key: 'zebraLow' | 'zebraHigh', delta: number) => {
+    const newVal = Math.max(0, Math.min(109, exposureAssist[key] + delta));
+    onChangeExposureAssist({ ...exposureAssist, [key]: newVal });
   };
 
   return (
@@ -108,6 +285,305 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           </button>
         </div>
 
+        {/* MARKERS (also M key or tap on the picture while recording) */}
+        <div className="flex items-center gap-1">
+          <button
+            onClick={addMarker}
+            disabled={!isRecording}
+            className="h-7 px-2 rounded bg-yellow-500 hover:bg-yellow-400 text-black text-[10px] font-bold flex items-center gap-1 disabled:opacity-40"
+            title="Drop a marker (M key, or tap the picture)"
+          >
+            <Bookmark size={12} /> MARK{markerCount > 0 ? ` ${markerCount}` : ''}
+          </button>
+          {(Object.keys(MARKER_COLORS) as MarkerColor[]).map(color => (
+            <button
+              key={color}
+              onClick={() => onChangeMarkerColor(color)}
+              className={`w-4 h-4 rounded-full flex-shrink-0 ${markerColor === color ? 'ring-2 ring-white' : 'opacity-60'}`}
+              style={{ backgroundColor: MARKER_COLORS[color] }}
+              title={`Marker color: ${color}`}
+            />
+          ))}
+          <input
+            value={markerNote}
+            onChange={(e) => setMarkerNote(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && isRecording) addMarker(); }}
+            maxLength={60}
+            placeholder="Note, Enter to mark"
+            className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded px-2 h-7 text-[10px] font-mono text-zinc-300 focus:outline-none focus:border-yellow-500"
+          />
+        </div>
+
+        {/* RECORDING OUTPUT */}
+        <div className="bg-zinc-950 p-2 rounded border border-zinc-800 space-y-2">
+          <div className="flex items-center justify-between text-xs text-zinc-400">
+            <span className="flex items-center gap-2"><Film size={12} /> RECORD</span>
+            <div className="flex items-center gap-1">
+              {RECORDING_SOURCES.map(({ source, label, title }) => (
+                <button
+                  key={source}
+                  onClick={() => onChangeRecordingOutput({ ...recordingOutput, source })}
+                  disabled={isRecording}
+                  className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${
+                    recordingOutput.source === source ? 'bg-red-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                  } disabled:opacity-50`}
+                  title={title}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={onOpenRecordingFormat}
+            className="w-full flex items-center justify-between bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 rounded px-2 h-6 text-[9px] font-mono text-zinc-400"
+            title="Container, codec, bitrate and channels"
+          >
+            <span className="flex items-center gap-1"><Settings2 size={10} /> FORMAT</span>
+            <span className="text-zinc-300">
+              {recordingFormat.includeVideo
+                ? `${recordingFormat.container.toUpperCase()} · ${VIDEO_CODEC_LABELS[recordingFormat.videoCodec]} · ${recordingFormat.videoBitrate ? `${Number((recordingFormat.videoBitrate / 1e6).toFixed(1))} Mbps` : 'AUTO'}`
+                : 'AUDIO ONLY · WAV'}
+              {' · '}{recordingFormat.audioChannels === 1 ? 'MONO' : 'STEREO'}
+            </span>
+          </button>
+          {storageStatus && storageStatus.available !== null && (
+            <div className={`flex items-center justify-between text-[9px] font-mono ${
+              storageStatus.level === 'critical' ? 'text-red-500' : storageStatus.level === 'low' ? 'text-yellow-500' : 'text-zinc-500'
+            }`}>
+              <span>FREE {formatBytes(storageStatus.available)}</span>
+              <span>
+                {storageStatus.remainingSeconds !== null
+                  ? `~${formatRemaining(storageStatus.remainingSeconds)} @ ${(storageStatus.bitrate! / 1e6).toFixed(1)} Mbps`
+                  : 'TIME LEFT: AFTER FIRST TAKE'}
+              </span>
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] text-zinc-500 font-mono">PRE-ROLL</span>
+            <div className="flex items-center gap-1">
+              {PRE_ROLL_OPTIONS.map(seconds => (
+                <button
+                  key={seconds}
+                  onClick={() => onChangeRecordingOutput({ ...recordingOutput, preRollSeconds: seconds })}
+                  disabled={isRecording}
+                  className={`px-1.5 py-0.5 rounded text-[9px] font-bold font-mono ${
+                    recordingOutput.preRollSeconds === seconds ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                  } disabled:opacity-50`}
+                >
+                  {seconds ? `${seconds}s` : 'OFF'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] text-zinc-500 font-mono" title="Roll over to a new file during long takes">SPLIT</span>
+            <div className="flex items-center gap-1">
+              {SPLIT_OPTIONS.map(({ label, minutes, megabytes }) => (
+                <button
+                  key={label}
+                  onClick={() => onChangeRecordingOutput({ ...recordingOutput, splitMinutes: minutes, splitMegabytes: megabytes })}
+                  disabled={isRecording}
+                  className={`px-1.5 py-0.5 rounded text-[9px] font-bold font-mono ${
+                    recordingOutput.splitMinutes === minutes && recordingOutput.splitMegabytes === megabytes ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                  } disabled:opacity-50`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] text-zinc-500 font-mono" title="Audio-only takes and the WAV sidecar (Broadcast WAV)">WAV</span>
+            <div className="flex items-center gap-1">
+              {WAV_BIT_DEPTHS.map(({ bitDepth, label }) => (
+                <button
+                  key={bitDepth}
+                  onClick={() => onChangeRecordingOutput({ ...recordingOutput, wavBitDepth: bitDepth })}
+                  disabled={isRecording}
+                  className={`px-1.5 py-0.5 rounded text-[9px] font-bold font-mono ${
+                    recordingOutput.wavBitDepth === bitDepth ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                  } disabled:opacity-50`}
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                onClick={() => onChangeRecordingOutput({ ...recordingOutput, wavSidecar: !recordingOutput.wavSidecar })}
+                disabled={isRecording}
+                className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${
+                  recordingOutput.wavSidecar ? 'bg-red-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                } disabled:opacity-50`}
+                title="Also record a WAV file alongside every video take"
+              >
+                +WAV
+              </button>
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] text-zinc-500 font-mono" title="Audio is delayed by this much so it lines up with the HDMI picture. Saved per capture card + mic">A/V SYNC</span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => onChangeAvOffset(clampAvOffset(avOffsetMs - AV_OFFSET_STEP_MS))}
+                disabled={isRecording || isCalibratingAvSync}
+                className="px-1.5 py-0.5 rounded text-[9px] font-bold font-mono bg-zinc-800 text-zinc-500 hover:bg-zinc-700 disabled:opacity-50"
+              >
+                -
+              </button>
+              <span className="w-12 text-center text-[9px] font-mono text-zinc-300 tabular-nums">{avOffsetMs} ms</span>
+              <button
+                onClick={() => onChangeAvOffset(clampAvOffset(avOffsetMs + AV_OFFSET_STEP_MS))}
+                disabled={isRecording || isCalibratingAvSync}
+                className="px-1.5 py-0.5 rounded text-[9px] font-bold font-mono bg-zinc-800 text-zinc-500 hover:bg-zinc-700 disabled:opacity-50"
+              >
+                +
+              </button>
+              <button
+                onClick={onCalibrateAvSync}
+                disabled={isRecording || isCalibratingAvSync}
+                className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${
+                  isCalibratingAvSync ? 'bg-yellow-500 text-black animate-pulse' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                } disabled:opacity-50`}
+                title="Point the camera at this screen: the slate flashes and beeps three times and the delay is measured"
+              >
+                {isCalibratingAvSync ? 'MEASURING' : 'AUTO'}
+              </button>
+            </div>
+          </div>
+          {recordingOutput.source !== 'clean' && (
+            <button
+              onClick={() => onChangeRecordingOutput({ ...recordingOutput, alsoRecordClean: !recordingOutput.alsoRecordClean })}
+              disabled={isRecording}
+              className={`w-full h-6 rounded text-[9px] font-bold ${
+                recordingOutput.alsoRecordClean ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+              } disabled:opacity-50`}
+            >
+              {recordingOutput.alsoRecordClean ? '+ CLEAN FILE (2 FILES)' : 'ALSO RECORD CLEAN FILE'}
+            </button>
+          )}
+          {recordingOutput.source === 'program' && (
+            <>
+              <div className="grid grid-cols-3 gap-1">
+                {([['timecode', 'TC'], ['shotName', 'SHOT'], ['frameLines', 'LINES']] as const).map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => onChangeRecordingOutput({
+                      ...recordingOutput,
+                      overlays: { ...recordingOutput.overlays, [key]: !recordingOutput.overlays[key] }
+                    })}
+                    className={`h-6 rounded text-[9px] font-bold ${
+                      recordingOutput.overlays[key] ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <input
+                value={recordingOutput.overlays.watermark}
+                onChange={(e) => onChangeRecordingOutput({
+                  ...recordingOutput,
+                  overlays: { ...recordingOutput.overlays, watermark: e.target.value }
+                })}
+                placeholder="Watermark (e.g. FOR REVIEW)"
+                className="w-full bg-zinc-900 border border-zinc-800 rounded px-2 h-6 text-[10px] font-mono text-zinc-300 focus:outline-none focus:border-red-500"
+              />
+            </>
+          )}
+        </div>
+
+        {/* TIMECODE */}
+        <div className="bg-zinc-950 p-2 rounded border border-zinc-800 space-y-2">
+          <div className="flex items-center justify-between text-xs text-zinc-400">
+            <span className="flex items-center gap-2"><Clock size={12} /> TIMECODE</span>
+            <TimecodeDisplay settings={timecode} className="text-sm font-bold text-zinc-100" />
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-1">
+              {([['tod', 'TOD', 'Time of day'], ['freerun', 'FREE', 'Free run from a jammed value']] as const).map(([mode, label, title]) => (
+                <button
+                  key={mode}
+                  onClick={() => onChangeTimecode({ ...timecode, mode, freeRunStartedAt: mode === 'freerun' ? Date.now() : timecode.freeRunStartedAt })}
+                  disabled={isRecording}
+                  className={`px-1.5 py-0.5 rounded text-[9px] font-bold font-mono ${
+                    timecode.mode === mode ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                  } disabled:opacity-50`}
+                  title={title}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1">
+              {TIMECODE_RATE_LIST.map(rate => (
+                <button
+                  key={rate}
+                  onClick={() => changeTimecodeRate(rate)}
+                  disabled={isRecording}
+                  className={`px-1.5 py-0.5 rounded text-[9px] font-bold font-mono ${
+                    timecode.rate === rate ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                  } disabled:opacity-50`}
+                >
+                  {rate}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-1">
+            <input
+              value={jamInput}
+              onChange={(e) => setJamInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') jamTimecode(); }}
+              disabled={isRecording}
+              placeholder="HH:MM:SS:FF (empty = time of day)"
+              className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-2 h-6 text-[10px] font-mono text-zinc-300 focus:outline-none focus:border-red-500 disabled:opacity-50"
+            />
+            <button
+              onClick={jamTimecode}
+              disabled={isRecording}
+              className="px-2 h-6 rounded text-[9px] font-bold bg-zinc-800 text-zinc-300 hover:bg-zinc-700 disabled:opacity-50"
+              title="Start free run from this value"
+            >
+              JAM
+            </button>
+          </div>
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => onChangeTimecode({ ...timecode, burnIn: !timecode.burnIn })}
+              disabled={isRecording}
+              className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${
+                timecode.burnIn ? 'bg-red-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+              } disabled:opacity-50`}
+              title="Burn the timecode into recorded video (the extra clean file stays clean)"
+            >
+              BURN-IN
+            </button>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => onChangeTimecode({ ...timecode, ltcEnabled: !timecode.ltcEnabled })}
+                className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${
+                  timecode.ltcEnabled ? 'bg-green-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                }`}
+                title="Play LTC audio to feed a camera or recorder input"
+              >
+                LTC OUT
+              </button>
+              {(['left', 'right'] as const).map(channel => (
+                <button
+                  key={channel}
+                  onClick={() => onChangeTimecode({ ...timecode, ltcChannel: channel })}
+                  className={`px-1.5 py-0.5 rounded text-[9px] font-bold font-mono ${
+                    timecode.ltcChannel === channel ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                  }`}
+                  title={`LTC on the ${channel} channel`}
+                >
+                  {channel === 'left' ? 'L' : 'R'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
         {/* --- CREATOR TOOLS SECTION --- */}
         <div className="space-y-3 pt-2 border-t border-zinc-800">
           <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Creator Tools</h3>
@@ -133,16 +609,18 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               <ImagePlus size={18} />
             </button>
 
-             {/* 3. SOCIAL GUIDES (NEW) */}
+             {/* 3. FRAME LINES */}
              <button 
-              onClick={toggleGuide}
+              onClick={() => onChangeFrameGuides({ ...frameGuides, enabled: !frameGuides.enabled })}
               className={`col-span-1 p-2 rounded flex flex-col items-center justify-center gap-1 border transition-colors ${
-                activeGuide !== 'none' ? 'bg-indigo-900/30 text-indigo-400 border-indigo-500/50' : 'bg-zinc-800 text-zinc-400 border-zinc-700 hover:bg-zinc-700'
+                frameGuides.enabled ? 'bg-indigo-900/30 text-indigo-400 border-indigo-500/50' : 'bg-zinc-800 text-zinc-400 border-zinc-700 hover:bg-zinc-700'
               }`}
-              title="Social Media Aspect Ratios"
+              title="Frame Lines & Safe Areas"
             >
-              {activeGuide === 'none' ? <Monitor size={18}/> : <Smartphone size={18}/>}
-              {activeGuide !== 'none' && <span className="text-[8px] font-bold">{activeGuide}</span>}
+              <Frame size={18} />
+              {frameGuides.enabled && frameGuides.ratios.length > 0 && (
+                <span className="text-[8px] font-bold">{frameGuides.ratios.length > 1 ? `${frameGuides.ratios.length} LINES` : frameGuides.ratios[0]}</span>
+              )}
             </button>
 
             {/* 4. MAGIC SNAP (AUDIO TRIGGER) */}
@@ -192,29 +670,338 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
            )}
 
 
-          {/* LUTs */}
-          <div className="bg-zinc-950 p-2 rounded border border-zinc-800">
-             <div className="flex items-center gap-2 text-xs text-zinc-400 mb-2">
-               <Palette size={12} />
-               <span>LUT PREVIEW</span>
-             </div>
-             <div className="grid grid-cols-5 gap-1">
-                {(['none', 'cinematic', 'bw', 'rec709', 'teal-orange'] as LutPreset[]).map(lut => (
+          {/* CHROMA KEY SETTINGS */}
+          {isChromaActive && (
+            <div className="bg-zinc-950 p-2 rounded border border-green-900/50 space-y-2">
+              <div className="flex items-center justify-between text-xs text-zinc-400">
+                <span className="flex items-center gap-2"><ImagePlus size={12} /> CHROMA KEY</span>
+                <div className="flex items-center gap-1">
+                  {(Object.entries(CHROMA_PRESETS) as [string, string][]).map(([name, hex]) => (
+                    <button
+                      key={name}
+                      onClick={() => onChangeChromaColor(hex)}
+                      className={`px-1.5 rounded text-[8px] font-bold uppercase ${
+                        chromaColor === hex ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                      }`}
+                    >
+                      {name}
+                    </button>
+                  ))}
+                  <input
+                    type="color"
+                    value={chromaColor}
+                    onChange={(e) => onChangeChromaColor(e.target.value)}
+                    className="w-5 h-5 bg-transparent border-0 p-0 cursor-pointer"
+                    title="Key Color"
+                  />
                   <button
-                    key={lut}
-                    onClick={() => onChangeLut(lut)}
-                    className={`h-6 w-full rounded text-[8px] font-bold uppercase transition-all ${
-                      activeLut === lut ? 'bg-orange-600 text-white ring-1 ring-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                    onClick={onTogglePickChromaColor}
+                    className={`p-0.5 rounded ${isPickingChromaColor ? 'bg-green-600 text-white' : 'text-zinc-400 hover:text-white hover:bg-zinc-800'}`}
+                    title="Sample key color from the live image"
+                  >
+                    <Pipette size={12} />
+                  </button>
+                </div>
+              </div>
+              {([['similarity', 'SIMILARITY'], ['smoothness', 'SMOOTHNESS'], ['spill', 'SPILL']] as const).map(([key, label]) => (
+                <div key={key} className="flex items-center gap-2">
+                  <span className="text-[9px] text-zinc-500 font-mono w-16">{label}</span>
+                  <input
+                    type="range" min="0" max="1" step="0.01"
+                    value={chromaKey[key]}
+                    onChange={(e) => onChangeChromaKey({ ...chromaKey, [key]: Number(e.target.value) })}
+                    className="flex-1 h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-green-500"
+                  />
+                  <span className="text-[9px] text-zinc-400 font-mono w-6 text-right">{Math.round(chromaKey[key] * 100)}</span>
+                </div>
+              ))}
+              <button
+                onClick={() => onChangeChromaKey({ ...chromaKey, showMatte: !chromaKey.showMatte })}
+                className={`w-full h-6 rounded text-[9px] font-bold ${
+                  chromaKey.showMatte ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                }`}
+              >
+                {chromaKey.showMatte ? 'MATTE VIEW ON' : 'SHOW MATTE'}
+              </button>
+
+              {/* Background plate */}
+              <div className="pt-2 border-t border-zinc-800 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-[9px] text-zinc-500 font-mono">BACKGROUND</span>
+                  <div className="flex items-center gap-1">
+                    {BACKGROUND_KINDS.map(({ kind, label }) => (
+                      <button
+                        key={kind}
+                        onClick={() => onChangeChromaBackground({ ...chromaBackground, kind })}
+                        className={`px-1.5 rounded text-[8px] font-bold ${
+                          chromaBackground.kind === kind ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    {chromaBackground.kind === 'solid' && (
+                      <input
+                        type="color"
+                        value={chromaBackground.color}
+                        onChange={(e) => onChangeChromaBackground({ ...chromaBackground, color: e.target.value })}
+                        className="w-5 h-5 bg-transparent border-0 p-0 cursor-pointer"
+                        title="Background Color"
+                      />
+                    )}
+                  </div>
+                </div>
+                {(chromaBackground.kind === 'image' || chromaBackground.kind === 'video') && (
+                  <>
+                    <button
+                      onClick={() => plateInputRef.current?.click()}
+                      className="w-full h-6 rounded text-[9px] font-bold bg-zinc-800 text-zinc-400 hover:bg-zinc-700 flex items-center justify-center gap-1 truncate"
+                      title="Choose an image or looping video from this device"
+                    >
+                      <Upload size={10} /> {chromaBackground.mediaName || 'CHOOSE PLATE...'}
+                    </button>
+                    <input
+                      ref={plateInputRef}
+                      type="file"
+                      accept="image/*,video/*"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onPickChromaPlate(file);
+                        e.target.value = '';
+                      }}
+                    />
+                    {([['offsetX', 'POS X', -50, 50, 1], ['offsetY', 'POS Y', -50, 50, 1], ['scale', 'SCALE', 0.5, 3, 0.05]] as const).map(([key, label, min, max, step]) => (
+                      <div key={key} className="flex items-center gap-2">
+                        <span className="text-[9px] text-zinc-500 font-mono w-16">{label}</span>
+                        <input
+                          type="range" min={min} max={max} step={step}
+                          value={chromaBackground[key]}
+                          onChange={(e) => onChangeChromaBackground({ ...chromaBackground, [key]: Number(e.target.value) })}
+                          onDoubleClick={() => onChangeChromaBackground({ ...chromaBackground, [key]: key === 'scale' ? 1 : 0 })}
+                          className="flex-1 h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-green-500"
+                        />
+                        <span className="text-[9px] text-zinc-400 font-mono w-6 text-right">
+                          {key === 'scale' ? chromaBackground.scale.toFixed(2) : chromaBackground[key]}
+                        </span>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* FRAME LINES SETTINGS */}
+          {frameGuides.enabled && (
+            <div className="bg-zinc-950 p-2 rounded border border-indigo-900/50 space-y-2">
+              <div className="flex items-center justify-between text-xs text-zinc-400">
+                <span className="flex items-center gap-2"><Frame size={12} /> FRAME LINES</span>
+                <input
+                  type="color"
+                  value={frameGuides.lineColor}
+                  onChange={(e) => onChangeFrameGuides({ ...frameGuides, lineColor: e.target.value })}
+                  className="w-5 h-5 bg-transparent border-0 p-0 cursor-pointer"
+                  title="Line Color"
+                />
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {FRAME_GUIDE_PRESETS.map(guide => (
+                  <button
+                    key={guide}
+                    onClick={() => toggleFrameRatio(guide)}
+                    className={`px-1.5 py-0.5 rounded text-[9px] font-bold font-mono ${
+                      frameGuides.ratios.includes(guide) ? 'bg-indigo-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                    }`}
+                  >
+                    {guide}
+                  </button>
+                ))}
+                {frameGuides.customRatios.map(guide => (
+                  <div key={guide} className="flex items-center">
+                    <button
+                      onClick={() => toggleFrameRatio(guide)}
+                      className={`pl-1.5 pr-1 py-0.5 rounded-l text-[9px] font-bold font-mono ${
+                        frameGuides.ratios.includes(guide) ? 'bg-indigo-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                      }`}
+                    >
+                      {guide}
+                    </button>
+                    <button
+                      onClick={() => removeCustomRatio(guide)}
+                      className="px-0.5 py-0.5 rounded-r bg-zinc-800 text-zinc-500 hover:text-red-500 hover:bg-zinc-700"
+                      title="Remove ratio"
+                    >
+                      <X size={10} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-1">
+                <input
+                  value={customRatioInput}
+                  onChange={(e) => setCustomRatioInput(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') addCustomRatio(); }}
+                  placeholder="Custom W:H"
+                  className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded px-2 h-6 text-[10px] font-mono text-zinc-300 focus:outline-none focus:border-indigo-500"
+                />
+                <button
+                  onClick={addCustomRatio}
+                  disabled={!customRatioInput.trim()}
+                  className="px-2 h-6 rounded text-[9px] font-bold bg-zinc-800 text-zinc-400 hover:bg-zinc-700 disabled:opacity-50"
+                >
+                  ADD
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-[9px] text-zinc-500 font-mono w-16">MASK</span>
+                <input
+                  type="range" min="0" max="1" step="0.05"
+                  value={frameGuides.maskOpacity}
+                  onChange={(e) => onChangeFrameGuides({ ...frameGuides, maskOpacity: Number(e.target.value) })}
+                  className="flex-1 h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                />
+                <span className="text-[9px] text-zinc-400 font-mono w-6 text-right">{Math.round(frameGuides.maskOpacity * 100)}</span>
+              </div>
+              <div className="grid grid-cols-3 gap-1">
+                {([['centerCross', 'CENTER'], ['actionSafe', 'ACTION 93%'], ['titleSafe', 'TITLE 90%']] as const).map(([key, label]) => (
+                  <button
+                    key={key}
+                    onClick={() => onChangeFrameGuides({ ...frameGuides, [key]: !frameGuides[key] })}
+                    className={`h-6 rounded text-[9px] font-bold ${
+                      frameGuides[key] ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
                     }`}
                   >
-                    {lut === 'teal-orange' ? 'T&O' : lut.slice(0,4)}
+                    {label}
                   </button>
                 ))}
+              </div>
+            </div>
+          )}
+
+          {/* LUTs */}
+          <div className="bg-zinc-950 p-2 rounded border border-zinc-800">
+             <div className="flex items-center justify-between text-xs text-zinc-400 mb-2">
+               <span className="flex items-center gap-2"><Palette size={12} /> LUT PREVIEW</span>
+               <div className="flex items-center gap-1">
+                 {(['trilinear', 'tetrahedral'] as LutInterpolation[]).map(mode => (
+                   <button
+                     key={mode}
+                     onClick={() => onChangeLutInterpolation(mode)}
+                     className={`px-1.5 rounded text-[8px] font-bold uppercase ${
+                       lutInterpolation === mode ? 'bg-orange-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                     }`}
+                     title={`${mode} interpolation`}
+                   >
+                     {mode === 'trilinear' ? 'TRI' : 'TETRA'}
+                   </button>
+                 ))}
+                 <button
+                   onClick={() => lutInputRef.current?.click()}
+                   className="p-0.5 rounded text-zinc-400 hover:text-white hover:bg-zinc-800"
+                   title="Import .cube LUT"
+                 >
+                   <Upload size={12} />
+                 </button>
+                 <input
+                   ref={lutInputRef}
+                   type="file"
+                   accept=".cube"
+                   className="hidden"
+                   onChange={(e) => {
+                     const file = e.target.files?.[0];
+                     if (file) onImportLut(file);
+                     e.target.value = '';
+                   }}
+                 />
+               </div>
+             </div>
+             <div className="grid grid-cols-3 gap-1">
+                <button
+                  onClick={() => onChangeLut('none')}
+                  className={`h-6 w-full rounded text-[8px] font-bold uppercase transition-all ${
+                    activeLut === 'none' ? 'bg-orange-600 text-white ring-1 ring-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                  }`}
+                >
+                  LOG (OFF)
+                </button>
+                {lutLibrary.map(lut => (
+                  <div key={lut.id} className="relative group">
+                    <button
+                      onClick={() => onChangeLut(lut.id)}
+                      className={`h-6 w-full px-1 rounded text-[8px] font-bold uppercase truncate transition-all ${
+                        activeLut === lut.id ? 'bg-orange-600 text-white ring-1 ring-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                      }`}
+                      title={`${lut.title} (${lut.kind.toUpperCase()} ${lut.size})`}
+                    >
+                      {lut.title}
+                    </button>
+                    {!lut.builtIn && (
+                      <button
+                        onClick={() => onDeleteLut(lut.id)}
+                        className="absolute -top-1 -right-1 hidden group-hover:flex bg-zinc-900 border border-zinc-700 rounded-full p-[1px] text-zinc-400 hover:text-red-500"
+                        title="Remove LUT"
+                      >
+                        <X size={8} />
+                      </button>
+                    )}
+                  </div>
+                ))}
              </div>
           </div>
         </div>
 
 
+        {/* --- EXPOSURE ASSIST (Zebras / False Color) --- */}
+        <div className="bg-zinc-950 p-2 rounded border border-zinc-800">
+           <div className="flex items-center justify-between text-xs text-zinc-400 mb-2">
+             <span className="flex items-center gap-2"><SunDim size={12} /> EXPOSURE ASSIST</span>
+             <div className="flex gap-1">
+               {(['rec709', 'slog2'] as ExposureProfile[]).map(profile => (
+                 <button
+                   key={profile}
+                   onClick={() => changeExposureProfile(profile)}
+                   className={`px-1.5 rounded text-[8px] font-bold uppercase ${
+                     exposureAssist.profile === profile ? 'bg-orange-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+                   }`}
+                 >
+                   {profile === 'rec709' ? '709' : 'S-Log2'}
+                 </button>
+               ))}
+             </div>
+           </div>
+           <div className="grid grid-cols-2 gap-1">
+             <button
+               onClick={() => onChangeExposureAssist({ ...exposureAssist, zebrasEnabled: !exposureAssist.zebrasEnabled })}
+               className={`h-6 rounded text-[9px] font-bold transition-all ${
+                 exposureAssist.zebrasEnabled ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+               }`}
+             >
+               ZEBRA
+             </button>
+             <button
+               onClick={() => onChangeExposureAssist({ ...exposureAssist, falseColorEnabled: !exposureAssist.falseColorEnabled })}
+               className={`h-6 rounded text-[9px] font-bold transition-all ${
+                 exposureAssist.falseColorEnabled ? 'bg-pink-600 text-white' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'
+               }`}
+             >
+               FALSE COLOR
+             </button>
+           </div>
+           {exposureAssist.zebrasEnabled && (
+             <div className="grid grid-cols-2 gap-1 mt-2">
+               {([['zebraLow', 'LOW'], ['zebraHigh', 'HIGH']] as const).map(([key, label]) => (
+                 <div key={key} className="flex items-center justify-between bg-black/40 rounded px-2 py-0.5">
+                   <span className="text-[9px] text-zinc-500">{label}</span>
+                   <button onClick={() => adjustZebra(key, -1)} className="text-zinc-500 hover:text-white font-bold">-</button>
+                   <span className="text-xs font-mono text-white">{exposureAssist[key]}%</span>
+                   <button onClick={() => adjustZebra(key, 1)} className="text-zinc-500 hover:text-white font-bold">+</button>
+                 </div>
+               ))}
+             </div>
+           )}
+        </div>
+
         {/* Exposure Settings Grid */}
         <div className="grid grid-cols-2 gap-3 pt-2 border-t border-zinc-800">
             {/* ISO */}
@@ -0,0 +1,82 @@
+import React, { useEffect, useRef } from 'react';
+import { ExposureAssistSettings } from '../types';
+import { grabFrame } from '../utils/frameAnalysis';
+import { renderFalseColor, renderZebras, FALSE_COLOR_BANDS } from '../utils/exposure';
+
+interface ExposureOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  settings: ExposureAssistSettings;
+}
+
+const SAMPLE_WIDTH = 480;
+const FRAME_INTERVAL_MS = 80;
+
+export const ExposureOverlay: React.FC<ExposureOverlayProps> = ({ videoRef, settings }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const { zebrasEnabled, zebraLow, zebraHigh, falseColorEnabled, profile } = settings;
+
+  useEffect(() => {
+    if (!zebrasEnabled && !falseColorEnabled) return;
+    if (!sampleCanvasRef.current) sampleCanvasRef.current = document.createElement('canvas');
+    let frameId: number;
+    let lastRun = 0;
+    let phase = 0;
+
+    const loop = (now: number) => {
+      frameId = requestAnimationFrame(loop);
+      if (now - lastRun < FRAME_INTERVAL_MS) return;
+      lastRun = now;
+
+      // Always analyse the untouched video, so chroma/LUT previews don't skew the readings
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas || !sampleCanvasRef.current) return;
+
+      const frame = grabFrame(video, sampleCanvasRef.current, SAMPLE_WIDTH);
+      if (!frame) return;
+
+      if (canvas.width !== frame.width || canvas.height !== frame.height) {
+        canvas.width = frame.width;
+        canvas.height = frame.height;
+      }
+
+      const out = new ImageData(frame.width, frame.height);
+      if (falseColorEnabled) renderFalseColor(frame, profile, out);
+      if (zebrasEnabled) {
+        phase = (phase + 1) % 8;
+        renderZebras(frame, zebraLow, zebraHigh, phase, out);
+      }
+      canvas.getContext('2d')?.putImageData(out, 0, 0);
+    };
+
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [videoRef, zebrasEnabled, zebraLow, zebraHigh, falseColorEnabled, profile]);
+
+  if (!zebrasEnabled && !falseColorEnabled) return null;
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full object-contain pointer-events-none z-20"
+      />
+
+      {/* False Color Legend */}
+      {falseColorEnabled && (
+        <div className="absolute left-3 top-16 z-40 bg-black/70 rounded border border-white/10 p-1.5 flex flex-col gap-0.5 pointer-events-none">
+          {FALSE_COLOR_BANDS[profile].slice().reverse().map(band => (
+            <div key={band.label} className="flex items-center gap-1.5 text-[9px] font-mono text-zinc-300">
+              <span className="w-3 h-2 rounded-[1px]" style={{ backgroundColor: `rgb(${band.color.join(',')})` }}></span>
+              <span className="w-14">{band.label}</span>
+              <span className="text-zinc-500">
+                {band.from === -Infinity ? `<${band.to}` : band.to === Infinity ? `>${band.from}` : `${band.from}-${band.to}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,70 @@
+import React, { useEffect, useRef } from 'react';
+import { PeakingColor, PeakingLevel } from '../types';
+import { grabFrame, computePeakingMask } from '../utils/frameAnalysis';
+
+interface FocusPeakingProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  color: PeakingColor;
+  level: PeakingLevel;
+}
+
+// Edge detection runs on a downscaled copy; 640px keeps fine detail visible
+// on a phone screen while staying cheap enough for ~15fps.
+const SAMPLE_WIDTH = 640;
+const FRAME_INTERVAL_MS = 66;
+
+export const PEAKING_COLORS: Record<PeakingColor, [number, number, number]> = {
+  red: [255, 40, 40],
+  yellow: [255, 230, 0],
+  white: [255, 255, 255],
+  blue: [40, 120, 255]
+};
+
+// Sobel magnitude thresholds: higher sensitivity = lower threshold = more edges lit
+const PEAKING_THRESHOLDS: Record<PeakingLevel, number> = {
+  low: 260,
+  mid: 180,
+  high: 120
+};
+
+export const FocusPeaking: React.FC<FocusPeakingProps> = ({ videoRef, color, level }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    if (!sampleCanvasRef.current) sampleCanvasRef.current = document.createElement('canvas');
+    let frameId: number;
+    let lastRun = 0;
+
+    const loop = (now: number) => {
+      frameId = requestAnimationFrame(loop);
+      if (now - lastRun < FRAME_INTERVAL_MS) return;
+      lastRun = now;
+
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas || !sampleCanvasRef.current) return;
+
+      const frame = grabFrame(video, sampleCanvasRef.current, SAMPLE_WIDTH);
+      if (!frame) return;
+
+      if (canvas.width !== frame.width || canvas.height !== frame.height) {
+        canvas.width = frame.width;
+        canvas.height = frame.height;
+      }
+      const mask = computePeakingMask(frame, PEAKING_THRESHOLDS[level], PEAKING_COLORS[color]);
+      canvas.getContext('2d')?.putImageData(mask, 0, 0);
+    };
+
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [videoRef, color, level]);
+
+  // Same object-contain box as the video so edges line up with the picture
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 w-full h-full object-contain pointer-events-none z-20"
+    />
+  );
+};
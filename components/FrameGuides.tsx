@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { FrameGuideSettings } from '../types';
+import { parseRatio, fitGuide, SAFE_AREAS } from '../utils/frameGuides';
+
+interface FrameGuidesProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  settings: FrameGuideSettings;
+}
+
+// Dash patterns so overlapping frame lines stay distinguishable
+const LINE_DASHES = [undefined, '12 6', '4 4', '16 4 4 4'];
+
+export const FrameGuides: React.FC<FrameGuidesProps> = ({ videoRef, settings }) => {
+  // Picture size in video pixels; the SVG is letterboxed like the object-contain video
+  const [picture, setPicture] = useState({ width: 1920, height: 1080 });
+  const { enabled, ratios, maskOpacity, lineColor, centerCross, actionSafe, titleSafe } = settings;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const update = () => {
+      if (video.videoWidth && video.videoHeight) setPicture({ width: video.videoWidth, height: video.videoHeight });
+    };
+    update();
+    video.addEventListener('loadedmetadata', update);
+    video.addEventListener('resize', update);
+    return () => {
+      video.removeEventListener('loadedmetadata', update);
+      video.removeEventListener('resize', update);
+    };
+  }, [videoRef]);
+
+  if (!enabled) return null;
+
+  const { width, height } = picture;
+  const frames = ratios
+    .map(guide => ({ guide, ratio: parseRatio(guide) }))
+    .filter((f): f is { guide: string; ratio: number } => f.ratio !== null)
+    .map(f => ({ ...f, rect: fitGuide(f.ratio, width, height) }));
+  const fontSize = height * 0.028;
+  const crossSize = height * 0.04;
+
+  const safeRect = (fraction: number) => ({
+    x: width * (1 - fraction) / 2,
+    y: height * (1 - fraction) / 2,
+    width: width * fraction,
+    height: height * fraction
+  });
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none z-30"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {/* Dim everything outside the union of the active frames */}
+      {frames.length > 0 && maskOpacity > 0 && (
+        <>
+          <defs>
+            <mask id="frame-guide-mask">
+              <rect width={width} height={height} fill="white" />
+              {frames.map(({ guide, rect }) => <rect key={guide} {...rect} fill="black" />)}
+            </mask>
+          </defs>
+          <rect width={width} height={height} fill="black" fillOpacity={maskOpacity} mask="url(#frame-guide-mask)" />
+        </>
+      )}
+
+      {frames.map(({ guide, rect }, i) => (
+        <g key={guide}>
+          <rect
+            {...rect}
+            fill="none"
+            stroke={lineColor}
+            strokeWidth={2}
+            strokeDasharray={LINE_DASHES[i % LINE_DASHES.length]}
+            vectorEffect="non-scaling-stroke"
+          />
+          <text
+            x={rect.x + fontSize * 0.4}
+            y={rect.y + fontSize * (1.2 + i * 1.1)}
+            fill={lineColor}
+            fontSize={fontSize}
+            fontFamily="monospace"
+            fontWeight="bold"
+          >
+            {guide}
+          </text>
+        </g>
+      ))}
+
+      {actionSafe && (
+        <rect {...safeRect(SAFE_AREAS.action)} fill="none" stroke={lineColor} strokeOpacity={0.6} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+      )}
+      {titleSafe && (
+        <rect {...safeRect(SAFE_AREAS.title)} fill="none" stroke={lineColor} strokeOpacity={0.6} strokeWidth={1} strokeDasharray="6 4" vectorEffect="non-scaling-stroke" />
+      )}
+
+      {centerCross && (
+        <g stroke={lineColor} strokeWidth={2} vectorEffect="non-scaling-stroke">
+          <line x1={width / 2 - crossSize} y1={height / 2} x2={width / 2 + crossSize} y2={height / 2} vectorEffect="non-scaling-stroke" />
+          <line x1={width / 2} y1={height / 2 - crossSize} x2={width / 2} y2={height / 2 + crossSize} vectorEffect="non-scaling-stroke" />
+        </g>
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BarChart3, Maximize2, Minimize2 } from 'lucide-react';
+import { HistogramMode } from '../types';
+import { grabFrame, computeHistogram, clippedFraction, HistogramData } from '../utils/frameAnalysis';
+
+interface HistogramProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  mode: HistogramMode;
+  onChangeMode: (mode: HistogramMode) => void;
+  expanded: boolean;
+  onToggleExpand: () => void;
+}
+
+const SAMPLE_WIDTH = 160; // Downscaled analysis width, plenty for a 256-bin histogram
+const SAMPLE_INTERVAL_MS = 100; // ~10 updates per second
+const CLIP_WARNING = 0.002; // 0.2% of the frame crushed/clipped lights the indicator
+
+const CHANNEL_COLORS = {
+  luma: 'rgba(255,255,255,0.85)',
+  red: 'rgba(239,68,68,0.8)',
+  green: 'rgba(34,197,94,0.8)',
+  blue: 'rgba(59,130,246,0.8)'
+};
+
+interface ClipState {
+  low: boolean;
+  high: boolean;
+  lowPct: number;
+  highPct: number;
+}
+
+// Scale against the tallest bin ignoring the extremes, otherwise a clipped
+// sky flattens everything else into the baseline.
+const binScale = (bins: Uint32Array) => {
+  let max = 1;
+  for (let i = 2; i < bins.length - 2; i++) if (bins[i] > max) max = bins[i];
+  return max;
+};
+
+const drawChannel = (
+  ctx: CanvasRenderingContext2D,
+  bins: Uint32Array,
+  color: string,
+  x: number,
+  width: number,
+  height: number
+) => {
+  const max = binScale(bins);
+  const step = width / bins.length;
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(x, height);
+  for (let i = 0; i < bins.length; i++) {
+    const h = Math.min(1, bins[i] / max) * height;
+    ctx.lineTo(x + i * step, height - h);
+    ctx.lineTo(x + (i + 1) * step, height - h);
+  }
+  ctx.lineTo(x + width, height);
+  ctx.closePath();
+  ctx.fill();
+};
+
+const drawHistogram = (canvas: HTMLCanvasElement, hist: HistogramData, mode: HistogramMode) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = canvas;
+  ctx.clearRect(0, 0, width, height);
+
+  if (mode === 'luma') {
+    drawChannel(ctx, hist.luma, CHANNEL_COLORS.luma, 0, width, height);
+  } else if (mode === 'rgb') {
+    ctx.globalCompositeOperation = 'lighter';
+    drawChannel(ctx, hist.red, CHANNEL_COLORS.red, 0, width, height);
+    drawChannel(ctx, hist.green, CHANNEL_COLORS.green, 0, width, height);
+    drawChannel(ctx, hist.blue, CHANNEL_COLORS.blue, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+  } else {
+    const gap = 2;
+    const w = (width - gap * 2) / 3;
+    drawChannel(ctx, hist.red, CHANNEL_COLORS.red, 0, w, height);
+    drawChannel(ctx, hist.green, CHANNEL_COLORS.green, w + gap, w, height);
+    drawChannel(ctx, hist.blue, CHANNEL_COLORS.blue, (w + gap) * 2, w, height);
+  }
+};
+
+const getClipState = (hist: HistogramData, mode: HistogramMode): ClipState => {
+  const channels = mode === 'luma' ? [hist.luma] : [hist.red, hist.green, hist.blue];
+  let low = 0;
+  let high = 0;
+  for (const bins of channels) {
+    const clip = clippedFraction(bins, hist.total);
+    low = Math.max(low, clip.low);
+    high = Math.max(high, clip.high);
+  }
+  return { low: low > CLIP_WARNING, high: high > CLIP_WARNING, lowPct: low * 100, highPct: high * 100 };
+};
+
+export const Histogram: React.FC<HistogramProps> = ({ videoRef, mode, onChangeMode, expanded, onToggleExpand }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [clip, setClip] = useState<ClipState>({ low: false, high: false, lowPct: 0, highPct: 0 });
+
+  // Sampling loop: draws straight into the canvas, only the clip flags go through React state
+  useEffect(() => {
+    if (!sampleCanvasRef.current) sampleCanvasRef.current = document.createElement('canvas');
+
+    const interval = window.setInterval(() => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas || !sampleCanvasRef.current) return;
+
+      const frame = grabFrame(video, sampleCanvasRef.current, SAMPLE_WIDTH);
+      if (!frame) return;
+
+      const hist = computeHistogram(frame);
+      drawHistogram(canvas, hist, mode);
+
+      const next = getClipState(hist, mode);
+      setClip(prev => (
+        prev.low === next.low && prev.high === next.high &&
+        Math.abs(prev.lowPct - next.lowPct) < 0.05 && Math.abs(prev.highPct - next.highPct) < 0.05
+      ) ? prev : next);
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [videoRef, mode]);
+
+  const modes: HistogramMode[] = ['luma', 'rgb', 'parade'];
+
+  return (
+    <div className={`relative bg-black/60 rounded border border-white/10 backdrop-blur-sm ${expanded ? 'w-80 p-2' : 'w-32 p-1'}`}>
+      {expanded && (
+        <div className="flex items-center justify-between mb-1">
+          <div className="flex items-center gap-1 text-[10px] font-mono text-zinc-400">
+            <BarChart3 size={10} /> HISTOGRAM
+          </div>
+          <div className="flex gap-1">
+            {modes.map(m => (
+              <button
+                key={m}
+                onClick={() => onChangeMode(m)}
+                className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase ${mode === m ? 'bg-orange-600 text-white' : 'bg-white/10 text-zinc-400 hover:bg-white/20'}`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="relative cursor-pointer" onClick={onToggleExpand} title={expanded ? 'Collapse Histogram' : 'Expand Histogram'}>
+        <canvas ref={canvasRef} width={expanded ? 512 : 128} height={expanded ? 160 : 48} className={`w-full ${expanded ? 'h-32' : 'h-12'}`} />
+
+        {/* Clipping indicators */}
+        <div className={`absolute top-0 left-0 w-1.5 h-full rounded-l ${clip.low ? 'bg-blue-500' : 'bg-transparent'}`}></div>
+        <div className={`absolute top-0 right-0 w-1.5 h-full rounded-r ${clip.high ? 'bg-red-500' : 'bg-transparent'}`}></div>
+
+        <div className="absolute top-0.5 right-2 text-zinc-500">
+          {expanded ? <Minimize2 size={10} /> : <Maximize2 size={8} />}
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="flex justify-between mt-1 text-[9px] font-mono">
+          <span className={clip.low ? 'text-blue-400' : 'text-zinc-500'}>CRUSH {clip.lowPct.toFixed(1)}%</span>
+          <span className={clip.high ? 'text-red-400' : 'text-zinc-500'}>CLIP {clip.highPct.toFixed(1)}%</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,73 +1,154 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { CameraSettings, ConnectionState, LutPreset, AspectRatioGuide } from '../types';
-import { Battery, Focus, Grid3X3, CameraOff, Clapperboard, AlertTriangle, Smartphone } from 'lucide-react';
+import { CameraSettings, ConnectionState, Lut, LutInterpolation, FrameGuideSettings, HistogramMode, ScopePlacement, PeakingColor, PeakingLevel, MagnifierZoom, MagnifierMode, VideoInputSettings, SignalLoss, SignalLossReason, ExposureAssistSettings, ChromaKeySettings, ChromaBackground, TimecodeSettings } from '../types';
+import { Activity, Battery, Focus, Grid3X3, CameraOff, Clapperboard, AlertTriangle, ZoomIn } from 'lucide-react';
+import { Histogram } from './Histogram';
+import { Scopes } from './Scopes';
+import { FocusPeaking, PEAKING_COLORS } from './FocusPeaking';
+import { ExposureOverlay } from './ExposureOverlay';
+import { LutPreview } from './LutPreview';
+import { ChromaBackgroundLayer } from './ChromaBackgroundLayer';
+import { FrameGuides } from './FrameGuides';
+import { Magnifier } from './Magnifier';
+import { TimecodeDisplay } from './TimecodeDisplay';
+import { StorageStatus, formatRemaining } from '../utils/recordingStorage';
+import { buildVideoConstraints, findReturningDevice } from '../utils/videoInput';
+import { clientToVideoPoint, sampleVideoColor, watchVideoFrames, presentedFrameCount } from '../utils/frameAnalysis';
+import { keyPixels, rgbToHex } from '../utils/chromaKey';
+import type { ChromaKeyRequest, ChromaKeyResponse } from '../workers/chromaKey.worker';
 
 interface LiveViewProps {
   connectionState: ConnectionState;
   settings: CameraSettings;
   isRecording: boolean;
+  storageStatus?: StorageStatus | null;
+  timecode: TimecodeSettings;
+  markerCount?: number; // Markers dropped in the running take
+  onMarker?: () => void; // Tap on the picture while recording
   onStreamReady?: (stream: MediaStream) => void;
+  videoInput: VideoInputSettings;
+  onSignalLossChange?: (loss: SignalLoss | null) => void;
   // New features props
-  activeLut: LutPreset;
+  lut: Lut | null; // null = no LUT (log signal)
+  lutInterpolation: LutInterpolation;
   ghostImage: string | null;
   isGhostVisible: boolean;
   isChromaActive: boolean;
+  chromaColor: string;
+  chromaKey: ChromaKeySettings;
+  chromaBackground: ChromaBackground;
+  isPickingChromaColor?: boolean;
+  onPickChromaColor?: (hex: string) => void;
   isSyncFlashActive: boolean; // For Digital Slate
-  activeGuide: AspectRatioGuide;
+  frameGuides: FrameGuideSettings;
+  exposureAssist: ExposureAssistSettings;
+  scopesPlacement: ScopePlacement;
+  onChangeScopesPlacement: (placement: ScopePlacement) => void;
   onCaptureFrame?: (dataUrl: string) => void;
 }
 
+// Signal-loss detection
+const FREEZE_CHECK_INTERVAL_MS = 500;
+const FREEZE_TIMEOUT_MS = 3000;
+const RECONNECT_INTERVAL_MS = 3000;
+const STREAM_WARMUP_MS = 6000;
+
+const SIGNAL_LOSS_LABELS: Record<SignalLossReason, string> = {
+  unplugged: 'SOURCE DISCONNECTED',
+  muted: 'SOURCE STOPPED SENDING',
+  frozen: 'FROZEN FRAME'
+};
+
 export const LiveView: React.FC<LiveViewProps> = ({ 
   connectionState, 
   settings, 
   isRecording, 
+  storageStatus,
+  timecode,
+  markerCount = 0,
+  onMarker,
   onStreamReady,
-  activeLut,
+  videoInput,
+  onSignalLossChange,
+  lut,
+  lutInterpolation,
   ghostImage,
   isGhostVisible,
   isChromaActive,
+  chromaColor,
+  chromaKey,
+  chromaBackground,
+  isPickingChromaColor,
+  onPickChromaColor,
   isSyncFlashActive,
-  activeGuide,
+  frameGuides,
+  exposureAssist,
+  scopesPlacement,
+  onChangeScopesPlacement,
   onCaptureFrame
 }) => {
   const [showGrid, setShowGrid] = useState(true);
   const [showPeaking, setShowPeaking] = useState(false);
+  const [peakingColor, setPeakingColor] = useState<PeakingColor>('red');
+  const [peakingLevel, setPeakingLevel] = useState<PeakingLevel>('mid');
+  const [isMagnifierArmed, setIsMagnifierArmed] = useState(false);
+  const [magnifierZoom, setMagnifierZoom] = useState<MagnifierZoom>(4);
+  const [magnifierMode, setMagnifierMode] = useState<MagnifierMode>('fullscreen');
+  const [exitMagnifierOnRecord, setExitMagnifierOnRecord] = useState(true);
+  const [magnifierCenter, setMagnifierCenter] = useState<{ x: number; y: number } | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null); // For Chroma Key
   const [isVideoAvailable, setIsVideoAvailable] = useState(false);
+  const [liveStream, setLiveStream] = useState<MediaStream | null>(null);
+  const [signalLost, setSignalLost] = useState<SignalLoss | null>(null);
+  const [reacquireToken, setReacquireToken] = useState(0);
+  const signalLostRef = useRef<SignalLoss | null>(null);
+  const lastDeviceRef = useRef<{ deviceId: string; label: string } | null>(null);
+  const lastOpenedAtRef = useRef(0);
   const [errorType, setErrorType] = useState<'permission' | 'device' | 'generic' | null>(null);
   const requestRef = useRef<number>();
-
-  // Simulate a live histogram
-  const [histogramData, setHistogramData] = useState<number[]>([]);
-  
-  useEffect(() => {
-    const interval = setInterval(() => {
-      const data = Array.from({ length: 20 }, () => Math.random() * 50 + 20);
-      setHistogramData(data);
-    }, 200);
-    return () => clearInterval(interval);
-  }, []);
+  // Latest key settings, read by the processing loop without restarting it
+  const chromaRef = useRef({ color: chromaColor, settings: chromaKey });
+  chromaRef.current = { color: chromaColor, settings: chromaKey };
+  const [isLutUnsupported, setIsLutUnsupported] = useState(false);
+  // The matte is judged ungraded
+  const hasFrameLines = frameGuides.enabled && frameGuides.ratios.length > 0;
+  const isLutPreviewActive = !!lut && !isLutUnsupported && !(isChromaActive && chromaKey.showMatte);
+
+  // Histogram (computed from the live frames inside <Histogram />)
+  const [histogramMode, setHistogramMode] = useState<HistogramMode>('luma');
+  const [isHistogramExpanded, setIsHistogramExpanded] = useState(false);
 
   // Initialize Camera Stream
+  // Also re-runs on `reacquireToken` while the signal is lost, to reopen the
+  // same device once it comes back.
   useEffect(() => {
     let stream: MediaStream | null = null;
     let isActive = true;
+    const isReacquiring = !!signalLostRef.current && signalLostRef.current.reason !== 'frozen';
 
     const startVideo = async () => {
       if (connectionState === ConnectionState.CONNECTED) {
         setErrorType(null);
+        let input = videoInput;
+        if (isReacquiring && lastDeviceRef.current) {
+          const deviceId = await findReturningDevice(lastDeviceRef.current).catch(() => null);
+          // Not back yet; the retry timer will try again
+          if (!deviceId || !isActive) return;
+          input = { ...videoInput, deviceId };
+        }
         try {
           try {
-            stream = await navigator.mediaDevices.getUserMedia({ 
-              video: { 
-                width: { ideal: 1920 },
-                height: { ideal: 1080 }
-              } 
-            });
-          } catch (hdError) {
-            console.warn("HD video constraint failed, trying default resolution...", hdError);
-            stream = await navigator.mediaDevices.getUserMedia({ video: true });
+            stream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(input, true) });
+          } catch (formatError: unknown) {
+            if (!(formatError instanceof DOMException && formatError.name === 'OverconstrainedError')) throw formatError;
+            console.warn(`Video source can't deliver ${input.formatId} exactly, taking the closest match...`, formatError);
+            try {
+              stream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(input, false) });
+            } catch (hdError) {
+              if (input.deviceId) throw hdError;
+              console.warn("HD video constraint failed, trying default resolution...", hdError);
+              stream = await navigator.mediaDevices.getUserMedia({ video: true });
+            }
           }
           
           if (!isActive) {
@@ -75,33 +156,35 @@ export const LiveView: React.FC<LiveViewProps> = ({
              return;
           }
 
-          if (videoRef.current && stream) {
-            videoRef.current.srcObject = stream;
-            try {
-              await videoRef.current.play();
-            } catch (playError) {
-              console.error("Play error:", playError);
-            }
-          }
-          
           if (stream) {
+            const track = stream.getVideoTracks()[0];
+            if (track) {
+              lastDeviceRef.current = { deviceId: track.getSettings().deviceId || '', label: track.label };
+              lastOpenedAtRef.current = performance.now();
+              track.addEventListener('ended', () => { if (isActive) markSignalLost('unplugged'); });
+              track.addEventListener('mute', () => { if (isActive) markSignalLost('muted'); });
+            }
+            setLiveStream(stream);
             setIsVideoAvailable(true);
             if (onStreamReady) onStreamReady(stream);
           }
 
         } catch (err: any) {
-          if (isActive) {
-            setIsVideoAvailable(false);
-            if (err.name === 'NotFoundError' || err.name === 'DevicesNotFoundError') {
-                console.warn("No camera device found.");
-                setErrorType('device');
-            } else if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
-                console.warn("Camera permission denied.");
-                setErrorType('permission');
-            } else {
-                console.error("Error accessing camera:", err);
-                setErrorType('generic');
-            }
+          if (!isActive) return;
+          if (isReacquiring) {
+            console.warn("Video source not ready yet, retrying...", err);
+            return;
+          }
+          setIsVideoAvailable(false);
+          if (err.name === 'NotFoundError' || err.name === 'DevicesNotFoundError' || err.name === 'OverconstrainedError') {
+              console.warn("No camera device found.");
+              setErrorType('device');
+          } else if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
+              console.warn("Camera permission denied.");
+              setErrorType('permission');
+          } else {
+              console.error("Error accessing camera:", err);
+              setErrorType('generic');
           }
         }
       }
@@ -114,63 +197,198 @@ export const LiveView: React.FC<LiveViewProps> = ({
       if (stream) {
         stream.getTracks().forEach(track => track.stop());
       }
-      if (requestRef.current) cancelAnimationFrame(requestRef.current);
     };
-  }, [connectionState, onStreamReady]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [connectionState, onStreamReady, videoInput, reacquireToken]);
+
+  // The <video> only mounts once a stream exists, so attach the stream after render
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isVideoAvailable || !video || !liveStream || video.srcObject === liveStream) return;
+    video.srcObject = liveStream;
+    video.play().catch(playError => console.error("Play error:", playError));
+  }, [isVideoAvailable, liveStream]);
+
+  // --- SIGNAL LOSS ---
+  const markSignalLost = (reason: SignalLossReason) => {
+    if (signalLostRef.current) return;
+    const loss = { at: new Date(), reason };
+    signalLostRef.current = loss;
+    setSignalLost(loss);
+    console.warn(`Video signal lost (${reason}) at ${loss.at.toLocaleTimeString()}`);
+  };
+
+  const markSignalRestored = () => {
+    const loss = signalLostRef.current;
+    if (!loss) return;
+    console.info(`Video signal restored after ${Math.round((Date.now() - loss.at.getTime()) / 1000)}s`);
+    signalLostRef.current = null;
+    setSignalLost(null);
+  };
+
+  // Frozen-frame detector. A stalled card keeps a "live" track but stops
+  // delivering frames; a static picture (locked-off shot, camera menu, held
+  // slate) still arrives at the full frame rate, so frames are counted, not
+  // compared. Also the way back to "live": any new frame restores the signal.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isVideoAvailable || !video) return;
+    let lastFrameAt = performance.now();
+    const onFrame = () => {
+      lastFrameAt = performance.now();
+      markSignalRestored();
+    };
+    const stopWatching = watchVideoFrames(video, onFrame);
+    let frameCount = presentedFrameCount(video);
+
+    const interval = window.setInterval(() => {
+      if (!stopWatching) {
+        const count = presentedFrameCount(video);
+        if (count !== frameCount) {
+          frameCount = count;
+          onFrame();
+        }
+        // A browser that doesn't count frames can't tell a frozen feed
+        if (count === 0) return;
+      }
+      if (performance.now() - lastFrameAt >= FREEZE_TIMEOUT_MS) markSignalLost('frozen');
+    }, FREEZE_CHECK_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      stopWatching?.();
+    };
+  }, [isVideoAvailable, liveStream]);
+
+  // While lost: retry on a timer and whenever the device list changes. A frozen
+  // feed is left alone: its track is still open and the next frame ends it.
+  useEffect(() => {
+    if (!signalLost || signalLost.reason === 'frozen') return;
+    const retry = () => {
+      // Give a freshly reopened card time to deliver its first frames
+      if (performance.now() - lastOpenedAtRef.current < STREAM_WARMUP_MS) return;
+      setReacquireToken(t => t + 1);
+    };
+    const interval = window.setInterval(retry, RECONNECT_INTERVAL_MS);
+    navigator.mediaDevices.addEventListener?.('devicechange', retry);
+    return () => {
+      clearInterval(interval);
+      navigator.mediaDevices.removeEventListener?.('devicechange', retry);
+    };
+  }, [signalLost]);
+
+  useEffect(() => {
+    onSignalLossChange?.(signalLost);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [signalLost]);
 
 
   // Chroma Key Processing Loop
+  // Keying runs in a worker on an OffscreenCanvas; frames go over as ImageBitmaps
+  // and only one is in flight at a time, so a slow phone drops preview frames
+  // instead of stalling the UI.
   useEffect(() => {
     if (!isChromaActive || !isVideoAvailable) {
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
       return;
     }
 
-    const processFrame = () => {
-      const video = videoRef.current;
+    let isBusy = false;
+    let worker: Worker | null = null;
+
+    const drawKeyed = (frame: ImageBitmap) => {
       const canvas = canvasRef.current;
-      
-      if (video && canvas) {
-        const ctx = canvas.getContext('2d', { willReadFrequently: true });
-        if (ctx && video.readyState === video.HAVE_ENOUGH_DATA) {
-          // Resize canvas to match video
-          if (canvas.width !== video.videoWidth) {
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
-          }
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        if (canvas.width !== frame.width || canvas.height !== frame.height) {
+          canvas.width = frame.width;
+          canvas.height = frame.height;
+        }
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(frame, 0, 0);
+      }
+      frame.close();
+    };
 
-          // Draw current frame
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined') {
+      worker = new Worker(new URL('../workers/chromaKey.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<ChromaKeyResponse>) => {
+        drawKeyed(e.data.frame);
+        isBusy = false;
+      };
+      worker.onerror = (err) => {
+        console.error("Chroma worker error:", err);
+        isBusy = false;
+      };
+    }
 
-          // Get pixel data
-          const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const l = frame.data.length / 4;
-          
-          // Simple Green Screen Algorithm
-          for (let i = 0; i < l; i++) {
-            const r = frame.data[i * 4 + 0];
-            const g = frame.data[i * 4 + 1];
-            const b = frame.data[i * 4 + 2];
-            
-            // If green is dominant
-            if (g > 100 && g > r * 1.5 && g > b * 1.5) {
-              frame.data[i * 4 + 3] = 0; // Set Alpha to 0
-            }
-          }
-          
-          ctx.putImageData(frame, 0, 0);
-        }
+    // Main-thread fallback for browsers without OffscreenCanvas
+    const keyOnMainThread = (video: HTMLVideoElement) => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+      if (!canvas || !ctx) return;
+      if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
       }
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      keyPixels(frame.data, chromaRef.current.color, chromaRef.current.settings);
+      ctx.putImageData(frame, 0, 0);
+    };
+
+    const processFrame = async () => {
       requestRef.current = requestAnimationFrame(processFrame);
+      const video = videoRef.current;
+      if (!video || isBusy || video.readyState < video.HAVE_CURRENT_DATA || !video.videoWidth) return;
+
+      if (!worker) {
+        keyOnMainThread(video);
+        return;
+      }
+
+      isBusy = true;
+      try {
+        const frame = await createImageBitmap(video);
+        const request: ChromaKeyRequest = { frame, keyColor: chromaRef.current.color, settings: chromaRef.current.settings };
+        worker.postMessage(request, [frame]);
+      } catch (err) {
+        console.warn("Could not grab frame for chroma key", err);
+        isBusy = false;
+      }
     };
 
     requestRef.current = requestAnimationFrame(processFrame);
 
     return () => {
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
+      worker?.terminate();
     };
   }, [isChromaActive, isVideoAvailable]);
 
+  // --- TAP ON THE PICTURE: eyedropper (sample the key color) or magnifier ---
+  const handleVideoClick = (e: React.MouseEvent) => {
+    const video = videoRef.current;
+    if (isRecording && onMarker && !isPickingChromaColor && !isMagnifierArmed) {
+      onMarker();
+      return;
+    }
+    if (!video || (!isPickingChromaColor && !isMagnifierArmed)) return;
+    const point = clientToVideoPoint(video, e.currentTarget, e.clientX, e.clientY);
+    if (!point) return;
+
+    if (isPickingChromaColor) {
+      const color = sampleVideoColor(video, point.x, point.y);
+      if (color && onPickChromaColor) onPickChromaColor(rgbToHex(...color));
+      return;
+    }
+    setMagnifierCenter(point);
+  };
+
+  // Don't leave the operator punched in once the take is rolling
+  useEffect(() => {
+    if (isRecording && exitMagnifierOnRecord) setMagnifierCenter(null);
+  }, [isRecording, exitMagnifierOnRecord]);
 
   // Helper to expose frame capture to parent
   useEffect(() => {
@@ -181,17 +399,6 @@ export const LiveView: React.FC<LiveViewProps> = ({
   }, [onCaptureFrame]);
 
 
-  // LUT CSS Strings
-  const getLutStyle = () => {
-    switch (activeLut) {
-      case 'cinematic': return { filter: 'contrast(1.1) saturate(1.2) sepia(0.2)' };
-      case 'bw': return { filter: 'grayscale(1) contrast(1.2)' };
-      case 'rec709': return { filter: 'saturate(1.2) contrast(1.05)' };
-      case 'teal-orange': return { filter: 'contrast(1.1) saturate(1.3) hue-rotate(-10deg) sepia(0.3)' }; // approx
-      default: return {};
-    }
-  };
-
   const renderNoSignal = () => {
     let message = "NO SIGNAL";
     let subMessage = "";
@@ -225,21 +432,20 @@ export const LiveView: React.FC<LiveViewProps> = ({
     <div className="relative w-full h-full bg-black rounded-lg overflow-hidden border border-zinc-800 shadow-2xl group flex items-center justify-center">
       
       {/* 1. Background Layer (for Chroma Key transparency) */}
-      {isChromaActive && (
-        <div 
-          className="absolute inset-0 z-0 bg-cover bg-center"
-          style={{ 
-            backgroundImage: 'url("https://images.unsplash.com/photo-1550684848-fac1c5b4e853?q=80&w=2070&auto=format&fit=crop")', // Demo cyberpunk background
-          }}
-        ></div>
+      {isChromaActive && !chromaKey.showMatte && (
+        <ChromaBackgroundLayer background={chromaBackground} />
       )}
 
       {/* 2. Video Feed Layer */}
-      <div className="absolute inset-0 z-10" style={getLutStyle()}>
-        {/* If Chroma is active, we show the processed Canvas. If not, we show the Video. */}
+      <div
+        className={`absolute inset-0 z-10 ${isPickingChromaColor ? 'cursor-crosshair' : isMagnifierArmed ? 'cursor-zoom-in' : ''}`}
+        onClick={handleVideoClick}
+      >
+        {/* The video always plays (it feeds every analysis tool); what is shown is
+            the raw video, the keyed chroma canvas, or the LUT-graded version of either. */}
         <video 
           ref={videoRef}
-          className={`w-full h-full object-contain transition-all duration-200 ${isChromaActive ? 'hidden' : ''} ${showPeaking ? 'brightness-50 grayscale contrast-125' : ''}`}
+          className={`w-full h-full object-contain transition-all duration-200 ${isChromaActive || isLutPreviewActive ? 'hidden' : ''}`}
           muted
           playsInline
           autoPlay
@@ -247,8 +453,17 @@ export const LiveView: React.FC<LiveViewProps> = ({
         />
         <canvas 
           ref={canvasRef}
-          className={`w-full h-full object-contain ${!isChromaActive ? 'hidden' : ''}`}
+          id="live-chroma-canvas" // read by the recording relay for the composite
+          className={`w-full h-full object-contain ${!isChromaActive || isLutPreviewActive ? 'hidden' : ''}`}
         />
+        {isLutPreviewActive && lut && (
+          <LutPreview
+            sourceRef={isChromaActive ? canvasRef : videoRef}
+            lut={lut}
+            interpolation={lutInterpolation}
+            onUnsupported={() => setIsLutUnsupported(true)}
+          />
+        )}
       </div>
 
       {/* 3. Ghost Mode Overlay */}
@@ -263,14 +478,58 @@ export const LiveView: React.FC<LiveViewProps> = ({
         <div className="absolute inset-0 z-[100] bg-white animate-out fade-out duration-300"></div>
       )}
 
-      {/* 5. Focus Peaking Simulation (Green Edges) */}
-      {showPeaking && !isChromaActive && (
-        <div className="absolute inset-0 pointer-events-none opacity-40 mix-blend-screen z-20" 
-             style={{ 
-               boxShadow: 'inset 0 0 100px rgba(0,255,0,0.1)',
-               backgroundImage: 'radial-gradient(circle, #00ff00 1px, transparent 1px)',
-               backgroundSize: '3px 3px'
-             }}>
+      {/* 5. Focus Peaking (edge detection on the live frame) */}
+      {showPeaking && (
+        <FocusPeaking videoRef={videoRef} color={peakingColor} level={peakingLevel} />
+      )}
+
+      {/* 5b. Zebras / False Color */}
+      <ExposureOverlay videoRef={videoRef} settings={exposureAssist} />
+
+      {/* 5c. Eyedropper hint */}
+      {isPickingChromaColor && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 z-50 bg-black/70 border border-green-500/50 text-green-400 px-3 py-1 rounded-full text-xs font-mono pointer-events-none">
+          TAP THE SCREEN TO SAMPLE KEY COLOR
+        </div>
+      )}
+      {isMagnifierArmed && !magnifierCenter && !isPickingChromaColor && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 z-50 bg-black/70 border border-white/20 text-white px-3 py-1 rounded-full text-xs font-mono pointer-events-none">
+          TAP A POINT TO MAGNIFY
+        </div>
+      )}
+
+      {/* 5d. Focus Magnifier */}
+      {isMagnifierArmed && magnifierCenter && (
+        <Magnifier
+          videoRef={videoRef}
+          zoom={magnifierZoom}
+          mode={magnifierMode}
+          center={magnifierCenter}
+          onChangeCenter={setMagnifierCenter}
+          onClose={() => setMagnifierCenter(null)}
+        />
+      )}
+
+      {/* 5e. Signal Lost (a frozen feed keeps its picture, just flagged) */}
+      {signalLost?.reason === 'frozen' && (
+        <div className="absolute top-28 left-1/2 -translate-x-1/2 z-[55] bg-black/70 border border-yellow-500/50 text-yellow-400 px-3 py-1 rounded-full text-xs font-mono flex items-center gap-2 pointer-events-none">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          {SIGNAL_LOSS_LABELS.frozen} · {signalLost.at.toLocaleTimeString()}
+        </div>
+      )}
+      {signalLost && signalLost.reason !== 'frozen' && (
+        <div className="absolute inset-0 z-[55] bg-black/75 flex flex-col items-center justify-center text-center pointer-events-none">
+          <AlertTriangle className="w-12 h-12 mb-3 text-red-600" />
+          <span className="font-mono text-lg font-bold text-red-500">SIGNAL LOST</span>
+          <span className="font-mono text-xs text-zinc-400 mt-1">
+            {SIGNAL_LOSS_LABELS[signalLost.reason]} · {signalLost.at.toLocaleTimeString()}
+          </span>
+          <span className="font-mono text-[10px] text-zinc-500 mt-3 animate-pulse">RECONNECTING...</span>
+          {isRecording && (
+            <span className="font-mono text-[10px] text-yellow-500 mt-2 max-w-[260px]">
+              RECORDING CONTINUES: AUDIO KEPT, GAP MARKED IN THE VIDEO
+            </span>
+          )}
         </div>
       )}
 
@@ -279,11 +538,21 @@ export const LiveView: React.FC<LiveViewProps> = ({
         <div className="absolute top-4 right-4 flex items-center space-x-2 bg-black/60 px-3 py-1 rounded-full backdrop-blur-sm z-50 border border-red-500/30">
            <div className="w-3 h-3 rounded-full bg-red-600 animate-pulse"></div>
            <span className="text-red-500 font-bold font-mono text-sm">REC</span>
+           {markerCount > 0 && (
+             <span key={markerCount} className="font-mono text-[10px] font-bold text-yellow-400 animate-pulse" title="Markers in this take">
+               ◆ {markerCount}
+             </span>
+           )}
+           {storageStatus && storageStatus.level !== 'ok' && (
+             <span className={`font-mono text-[10px] font-bold ${storageStatus.level === 'critical' ? 'text-red-400 animate-pulse' : 'text-yellow-400'}`}>
+               STORAGE {formatRemaining(storageStatus.remainingSeconds!)} LEFT
+             </span>
+           )}
         </div>
       )}
 
       {/* 7. Grid Overlay */}
-      {showGrid && activeGuide === 'none' && (
+      {showGrid && !hasFrameLines && (
         <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3 z-30 opacity-30">
           <div className="border-r border-b border-white/50"></div>
           <div className="border-r border-b border-white/50"></div>
@@ -297,24 +566,13 @@ export const LiveView: React.FC<LiveViewProps> = ({
         </div>
       )}
 
-      {/* 8. SOCIAL SAFE ZONES (Aspect Ratio Guides) */}
-      {activeGuide !== 'none' && (
-        <div className="absolute inset-0 z-30 pointer-events-none flex items-center justify-center">
-             {/* 
-                 The video is likely 16:9. We want to dim everything OUTSIDE the target ratio.
-                 Since video scales with object-contain, we use percentages relative to container.
-             */}
-             {activeGuide === '9:16' && (
-                <div className="relative h-full aspect-[9/16] border-x-2 border-white/30 shadow-[0_0_0_9999px_rgba(0,0,0,0.7)]">
-                   <div className="absolute top-4 right-4 opacity-50"><Smartphone size={24} /></div>
-                </div>
-             )}
-             {activeGuide === '4:5' && (
-                <div className="relative h-full aspect-[4/5] border-x-2 border-white/30 shadow-[0_0_0_9999px_rgba(0,0,0,0.7)]"></div>
-             )}
-             {activeGuide === '1:1' && (
-                <div className="relative h-full aspect-square border-x-2 border-white/30 shadow-[0_0_0_9999px_rgba(0,0,0,0.7)]"></div>
-             )}
+      {/* 8. Frame Lines & Safe Areas */}
+      <FrameGuides videoRef={videoRef} settings={frameGuides} />
+
+      {/* 9. Floating Scopes */}
+      {scopesPlacement === 'overlay' && (
+        <div className="absolute top-16 right-4 z-[45]">
+          <Scopes lut={lut} lutInterpolation={lutInterpolation} placement={scopesPlacement} onChangePlacement={onChangeScopesPlacement} />
         </div>
       )}
 
@@ -325,14 +583,30 @@ export const LiveView: React.FC<LiveViewProps> = ({
             <span className="text-xs text-zinc-400">MODE</span>
             <span className="font-bold text-orange-500">M</span>
           </div>
+          <div className="flex flex-col">
+            <span className="text-xs text-zinc-400">TC {timecode.rate}{timecode.mode === 'freerun' ? ' FR' : ''}</span>
+            <TimecodeDisplay settings={timecode} className={timecode.ltcEnabled ? 'text-green-400' : 'text-white'} />
+          </div>
           <div className="flex flex-col">
             <span className="text-xs text-zinc-400">LUT</span>
-            <span className="uppercase">{activeLut}</span>
+            <span className="uppercase">{lut ? lut.title : 'LOG'}{isLutUnsupported && lut ? ' (N/A)' : ''}</span>
           </div>
-          {activeGuide !== 'none' && (
-             <div className="flex flex-col animate-pulse">
+          {exposureAssist.zebrasEnabled && (
+             <div className="flex flex-col">
+                <span className="text-xs text-zinc-400">ZEBRA</span>
+                <span className="text-white">{exposureAssist.zebraLow}/{exposureAssist.zebraHigh}</span>
+             </div>
+          )}
+          {exposureAssist.falseColorEnabled && (
+             <div className="flex flex-col">
+                <span className="text-xs text-zinc-400">EXPO</span>
+                <span className="text-pink-400">FALSE CLR</span>
+             </div>
+          )}
+          {hasFrameLines && (
+             <div className="flex flex-col">
                 <span className="text-xs text-zinc-400">GUIDE</span>
-                <span className="uppercase text-yellow-500">{activeGuide}</span>
+                <span className="uppercase text-yellow-500">{frameGuides.ratios.join(' + ')}</span>
              </div>
           )}
         </div>
@@ -363,23 +637,92 @@ export const LiveView: React.FC<LiveViewProps> = ({
 
         {/* Mini Histogram & Toggles */}
         <div className="flex flex-col items-end space-y-2">
+            {showPeaking && (
+                <div className="flex items-center space-x-1 bg-black/60 rounded p-1">
+                    {(Object.keys(PEAKING_COLORS) as PeakingColor[]).map(c => (
+                        <button
+                            key={c}
+                            onClick={() => setPeakingColor(c)}
+                            className={`w-4 h-4 rounded-full border ${peakingColor === c ? 'border-white scale-110' : 'border-transparent opacity-60'}`}
+                            style={{ backgroundColor: `rgb(${PEAKING_COLORS[c].join(',')})` }}
+                            title={`Peaking ${c}`}
+                        />
+                    ))}
+                    <div className="w-[1px] h-4 bg-white/20 mx-1"></div>
+                    {(['low', 'mid', 'high'] as PeakingLevel[]).map(l => (
+                        <button
+                            key={l}
+                            onClick={() => setPeakingLevel(l)}
+                            className={`px-1.5 rounded text-[9px] font-bold font-mono uppercase ${peakingLevel === l ? 'bg-white text-black' : 'text-zinc-400 hover:text-white'}`}
+                        >
+                            {l}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {isMagnifierArmed && (
+                <div className="flex items-center space-x-1 bg-black/60 rounded p-1">
+                    {([2, 4, 8] as MagnifierZoom[]).map(z => (
+                        <button
+                            key={z}
+                            onClick={() => setMagnifierZoom(z)}
+                            className={`px-1.5 rounded text-[9px] font-bold font-mono ${magnifierZoom === z ? 'bg-white text-black' : 'text-zinc-400 hover:text-white'}`}
+                        >
+                            {z}x
+                        </button>
+                    ))}
+                    <div className="w-[1px] h-4 bg-white/20 mx-1"></div>
+                    {([['fullscreen', 'FULL'], ['loupe', 'LOUPE']] as const).map(([m, label]) => (
+                        <button
+                            key={m}
+                            onClick={() => setMagnifierMode(m)}
+                            className={`px-1.5 rounded text-[9px] font-bold font-mono ${magnifierMode === m ? 'bg-white text-black' : 'text-zinc-400 hover:text-white'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                    <div className="w-[1px] h-4 bg-white/20 mx-1"></div>
+                    <button
+                        onClick={() => setExitMagnifierOnRecord(prev => !prev)}
+                        className={`px-1.5 rounded text-[9px] font-bold font-mono ${exitMagnifierOnRecord ? 'bg-red-600 text-white' : 'text-zinc-400 hover:text-white'}`}
+                        title="Exit the magnifier when recording starts"
+                    >
+                        EXIT@REC
+                    </button>
+                </div>
+            )}
             <div className="flex space-x-2">
                 <button 
                     onClick={() => setShowPeaking(!showPeaking)}
                     className={`p-1 rounded ${showPeaking ? 'bg-green-600 text-white' : 'bg-white/10 text-zinc-400'}`} title="Focus Peaking">
                     <Focus size={16} />
                 </button>
+                <button 
+                    onClick={() => {
+                        setIsMagnifierArmed(!isMagnifierArmed);
+                        setMagnifierCenter(null);
+                    }}
+                    className={`p-1 rounded ${isMagnifierArmed ? 'bg-green-600 text-white' : 'bg-white/10 text-zinc-400'}`} title="Focus Magnifier (tap the picture)">
+                    <ZoomIn size={16} />
+                </button>
+                <button 
+                    onClick={() => onChangeScopesPlacement(scopesPlacement === 'off' ? 'overlay' : 'off')}
+                    className={`p-1 rounded ${scopesPlacement !== 'off' ? 'bg-orange-600 text-white' : 'bg-white/10 text-zinc-400'}`} title="Scopes">
+                    <Activity size={16} />
+                </button>
                 <button 
                     onClick={() => setShowGrid(!showGrid)}
                     className={`p-1 rounded ${showGrid ? 'bg-orange-600 text-white' : 'bg-white/10 text-zinc-400'}`} title="Grid">
                     <Grid3X3 size={16} />
                 </button>
             </div>
-            <div className="flex items-end space-x-[2px] h-12 opacity-80 pointer-events-none">
-                {histogramData.map((h, i) => (
-                    <div key={i} className="w-1 bg-white" style={{ height: `${h}%` }}></div>
-                ))}
-            </div>
+            <Histogram
+                videoRef={videoRef}
+                mode={histogramMode}
+                onChangeMode={setHistogramMode}
+                expanded={isHistogramExpanded}
+                onToggleExpand={() => setIsHistogramExpanded(prev => !prev)}
+            />
         </div>
       </div>
     </div>
@@ -0,0 +1,64 @@
+import React, { useEffect, useRef } from 'react';
+import { Lut, LutInterpolation } from '../types';
+import { LutRenderer } from '../utils/lutRenderer';
+
+interface LutPreviewProps {
+  // Either the live <video> or the keyed chroma canvas
+  sourceRef: React.RefObject<HTMLVideoElement | HTMLCanvasElement>;
+  lut: Lut;
+  interpolation: LutInterpolation;
+  onUnsupported: () => void;
+}
+
+const sourceSize = (source: HTMLVideoElement | HTMLCanvasElement) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight, ready: source.readyState >= source.HAVE_CURRENT_DATA }
+    : { width: source.width, height: source.height, ready: source.width > 0 };
+
+export const LutPreview: React.FC<LutPreviewProps> = ({ sourceRef, lut, interpolation, onUnsupported }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<LutRenderer | null>(null);
+
+  // One WebGL context for the lifetime of the preview
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    try {
+      rendererRef.current = new LutRenderer(canvasRef.current);
+    } catch (err) {
+      console.warn('LUT preview unavailable, falling back to ungraded picture', err);
+      onUnsupported();
+    }
+    return () => {
+      rendererRef.current?.dispose();
+      rendererRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    rendererRef.current?.setLut(lut, interpolation);
+  }, [lut, interpolation]);
+
+  useEffect(() => {
+    let frameId: number;
+    const loop = () => {
+      const source = sourceRef.current;
+      const renderer = rendererRef.current;
+      if (source && renderer) {
+        const { width, height, ready } = sourceSize(source);
+        if (ready && width && height) renderer.render(source, width, height);
+      }
+      frameId = requestAnimationFrame(loop);
+    };
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [sourceRef]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      id="live-graded-canvas"
+      className="w-full h-full object-contain"
+    />
+  );
+};
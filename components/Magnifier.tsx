@@ -0,0 +1,141 @@
+import React, { useEffect, useRef } from 'react';
+import { MagnifierMode, MagnifierZoom } from '../types';
+import { videoToBoxPoint } from '../utils/frameAnalysis';
+
+interface MagnifierProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  zoom: MagnifierZoom;
+  mode: MagnifierMode;
+  center: { x: number; y: number }; // Source pixels
+  onChangeCenter: (center: { x: number; y: number }) => void;
+  onClose: () => void;
+}
+
+const LOUPE_WIDTH = 240;
+const LOUPE_HEIGHT = 160;
+// Pointer travel below this counts as a tap (closes the magnifier)
+const TAP_SLOP_PX = 4;
+
+export const Magnifier: React.FC<MagnifierProps> = ({ videoRef, zoom, mode, center, onChangeCenter, onClose }) => {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const loupeRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const centerRef = useRef(center);
+  const dragRef = useRef<{ clientX: number; clientY: number; center: { x: number; y: number }; moved: boolean } | null>(null);
+  centerRef.current = center;
+
+  const clampCenter = (x: number, y: number) => {
+    const video = videoRef.current;
+    if (!video) return { x, y };
+    return {
+      x: Math.max(0, Math.min(video.videoWidth, x)),
+      y: Math.max(0, Math.min(video.videoHeight, y))
+    };
+  };
+
+  // Each source pixel is drawn as a zoom x zoom block, without smoothing
+  useEffect(() => {
+    let frameId: number;
+    const loop = () => {
+      frameId = requestAnimationFrame(loop);
+      const video = videoRef.current;
+      const box = boxRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !box || !canvas || video.readyState < video.HAVE_CURRENT_DATA) return;
+
+      const rect = box.getBoundingClientRect();
+      const viewWidth = Math.round(mode === 'fullscreen' ? rect.width : LOUPE_WIDTH);
+      const viewHeight = Math.round(mode === 'fullscreen' ? rect.height : LOUPE_HEIGHT);
+      if (!viewWidth || !viewHeight) return;
+      if (canvas.width !== viewWidth || canvas.height !== viewHeight) {
+        canvas.width = viewWidth;
+        canvas.height = viewHeight;
+      }
+
+      const cropWidth = Math.min(video.videoWidth, viewWidth / zoom);
+      const cropHeight = Math.min(video.videoHeight, viewHeight / zoom);
+      const { x, y } = centerRef.current;
+      const sx = Math.max(0, Math.min(video.videoWidth - cropWidth, x - cropWidth / 2));
+      const sy = Math.max(0, Math.min(video.videoHeight - cropHeight, y - cropHeight / 2));
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(video, sx, sy, cropWidth, cropHeight, 0, 0, viewWidth, viewHeight);
+
+      // Keep the loupe over the point it magnifies
+      if (mode === 'loupe' && loupeRef.current) {
+        const point = videoToBoxPoint(video, box, x, y);
+        if (!point) return;
+        const left = Math.max(0, Math.min(rect.width - LOUPE_WIDTH, point.x - LOUPE_WIDTH / 2));
+        const top = Math.max(0, Math.min(rect.height - LOUPE_HEIGHT, point.y - LOUPE_HEIGHT / 2));
+        loupeRef.current.style.transform = `translate(${left}px, ${top}px)`;
+      }
+    };
+    frameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frameId);
+  }, [videoRef, zoom, mode]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { clientX: e.clientX, clientY: e.clientY, center: centerRef.current, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const video = videoRef.current;
+    if (!drag || !video || !boxRef.current) return;
+    const dx = e.clientX - drag.clientX;
+    const dy = e.clientY - drag.clientY;
+    if (!drag.moved && Math.hypot(dx, dy) < TAP_SLOP_PX) return;
+    drag.moved = true;
+
+    if (mode === 'fullscreen') {
+      // Pan: the image follows the finger
+      onChangeCenter(clampCenter(drag.center.x - dx / zoom, drag.center.y - dy / zoom));
+    } else {
+      // Loupe: the lens follows the finger across the (unzoomed) picture
+      const point = videoToBoxPoint(video, boxRef.current, 0, 0);
+      if (!point) return;
+      onChangeCenter(clampCenter(drag.center.x + dx / point.scale, drag.center.y + dy / point.scale));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    e.stopPropagation();
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.moved) onClose();
+  };
+
+  const pointerHandlers = {
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: () => { dragRef.current = null; },
+    onClick: (e: React.MouseEvent) => e.stopPropagation()
+  };
+
+  return (
+    <div ref={boxRef} className="absolute inset-0 z-[35] pointer-events-none">
+      {mode === 'fullscreen' ? (
+        <div className="absolute inset-0 bg-black pointer-events-auto touch-none cursor-move" {...pointerHandlers}>
+          <canvas ref={canvasRef} className="w-full h-full" />
+        </div>
+      ) : (
+        <div
+          ref={loupeRef}
+          className="absolute top-0 left-0 rounded border-2 border-white/80 shadow-2xl overflow-hidden bg-black pointer-events-auto touch-none cursor-move"
+          style={{ width: LOUPE_WIDTH, height: LOUPE_HEIGHT }}
+          {...pointerHandlers}
+        >
+          <canvas ref={canvasRef} className="w-full h-full" />
+        </div>
+      )}
+      <div className="absolute top-16 left-1/2 -translate-x-1/2 bg-black/70 border border-white/10 rounded px-2 py-0.5 text-[10px] font-mono text-white">
+        MAG {zoom}x
+      </div>
+    </div>
+  );
+};
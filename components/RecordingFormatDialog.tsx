@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { Settings2, X, FlaskConical, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { RecordingContainer, RecordingFormat } from '../types';
+import {
+  RECORDING_PRESETS,
+  VIDEO_CODEC_LABELS,
+  FormatTestResult,
+  applyPreset,
+  buildRecorderOptions,
+  listSupportedFormats,
+  testRecordingFormat
+} from '../utils/recordingFormat';
+
+interface RecordingFormatDialogProps {
+  format: RecordingFormat;
+  onChange: (format: RecordingFormat) => void;
+  videoStream: MediaStream | null;
+  audioStream: MediaStream | null; // Already mixed to the chosen channel count
+  isRecording: boolean;
+  onClose: () => void;
+}
+
+const VIDEO_BITRATES = [0, 2_500_000, 8_000_000, 16_000_000, 25_000_000, 50_000_000];
+const AUDIO_BITRATES = [0, 96_000, 128_000, 192_000, 256_000, 320_000];
+const TEST_SECONDS = 3;
+
+const formatBitrate = (bps: number) =>
+  bps >= 1e6 ? `${Number((bps / 1e6).toFixed(1))} Mbps` : `${Math.round(bps / 1e3)} kbps`;
+
+const chipClass = (active: boolean) =>
+  `px-2 py-1 rounded text-[10px] font-bold font-mono ${
+    active ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+  } disabled:opacity-40`;
+
+export const RecordingFormatDialog: React.FC<RecordingFormatDialogProps> = ({
+  format,
+  onChange,
+  videoStream,
+  audioStream,
+  isRecording,
+  onClose
+}) => {
+  const supported = useMemo(listSupportedFormats, []);
+  const [testResult, setTestResult] = useState<FormatTestResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const containers = Array.from(new Set(supported.map(f => f.container)));
+  const codecs = supported.filter(f => f.container === format.container);
+  const isSupported = codecs.some(f => f.videoCodec === format.videoCodec);
+
+  const update = (changes: Partial<RecordingFormat>) => {
+    setTestResult(null);
+    onChange({ ...format, ...changes });
+  };
+
+  const changeContainer = (container: RecordingContainer) => {
+    // Keep the codec if the new container has it, otherwise take its first one
+    const available = supported.filter(f => f.container === container);
+    const videoCodec = available.some(f => f.videoCodec === format.videoCodec) ? format.videoCodec : available[0].videoCodec;
+    update({ container, videoCodec });
+  };
+
+  const runTest = async () => {
+    const tracks = [...(videoStream?.getVideoTracks() || []), ...(audioStream?.getAudioTracks() || [])];
+    if (tracks.length === 0) {
+      alert("No source to test with. Connect the camera or a microphone first.");
+      return;
+    }
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      setTestResult(await testRecordingFormat(new MediaStream(tracks), buildRecorderOptions(format), TEST_SECONDS));
+    } catch (err) {
+      console.error("Format test failed:", err);
+      alert(`Test recording failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const requestedBitrate = format.videoBitrate ? format.videoBitrate + format.audioBitrate : 0;
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl w-full max-w-lg flex flex-col max-h-[85vh]">
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <h2 className="text-zinc-100 font-semibold flex items-center gap-2">
+            <Settings2 className="w-4 h-4 text-red-500" />
+            Recording Format
+          </h2>
+          <button onClick={onClose} className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col gap-4 overflow-y-auto custom-scrollbar">
+          {isRecording && (
+            <p className="text-[10px] font-mono text-yellow-500">Changes apply from the next take. Presets and channels are locked while recording.</p>
+          )}
+
+          {/* Presets */}
+          <div className="grid grid-cols-3 gap-2">
+            {RECORDING_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => update(applyPreset(preset, format, supported))}
+                disabled={isRecording}
+                className="bg-zinc-950 border border-zinc-800 hover:border-red-500 rounded p-2 text-left disabled:opacity-40 disabled:hover:border-zinc-800"
+              >
+                <div className="text-xs font-bold text-zinc-200">{preset.label}</div>
+                <div className="text-[10px] text-zinc-500">{preset.description}</div>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-zinc-400">VIDEO</span>
+            <div className="flex gap-1">
+              <button onClick={() => update({ includeVideo: true })} className={chipClass(format.includeVideo)}>VIDEO + AUDIO</button>
+              <button onClick={() => update({ includeVideo: false })} className={chipClass(!format.includeVideo)}>AUDIO ONLY (WAV)</button>
+            </div>
+          </div>
+
+          {format.includeVideo && (
+            <>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-zinc-400">CONTAINER</span>
+                <div className="flex gap-1">
+                  {containers.map(container => (
+                    <button key={container} onClick={() => changeContainer(container)} className={chipClass(format.container === container)}>
+                      {container.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-zinc-400">CODEC</span>
+                <div className="flex gap-1">
+                  {codecs.map(f => (
+                    <button key={f.videoCodec} onClick={() => update({ videoCodec: f.videoCodec })} className={chipClass(format.videoCodec === f.videoCodec)} title={f.mimeType}>
+                      {VIDEO_CODEC_LABELS[f.videoCodec]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {!isSupported && (
+                <p className="text-[10px] font-mono text-yellow-500 flex items-center gap-1">
+                  <AlertTriangle size={10} /> Not supported on this device, the default format will be used.
+                </p>
+              )}
+
+              <div className="flex flex-col gap-1">
+                <span className="text-xs text-zinc-400">VIDEO BITRATE</span>
+                <div className="flex flex-wrap gap-1">
+                  {VIDEO_BITRATES.map(bps => (
+                    <button key={bps} onClick={() => update({ videoBitrate: bps })} className={chipClass(format.videoBitrate === bps)}>
+                      {bps ? formatBitrate(bps) : 'AUTO'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-col gap-1">
+                <span className="text-xs text-zinc-400">AUDIO BITRATE</span>
+                <div className="flex flex-wrap gap-1">
+                  {AUDIO_BITRATES.map(bps => (
+                    <button key={bps} onClick={() => update({ audioBitrate: bps })} className={chipClass(format.audioBitrate === bps)}>
+                      {bps ? formatBitrate(bps) : 'AUTO'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-zinc-400">AUDIO CHANNELS</span>
+            <div className="flex gap-1">
+              {/* The live mix feeds the running take, rebuilding it would cut the audio */}
+              <button onClick={() => update({ audioChannels: 1 })} disabled={isRecording} className={chipClass(format.audioChannels === 1)}>MONO</button>
+              <button onClick={() => update({ audioChannels: 2 })} disabled={isRecording} className={chipClass(format.audioChannels === 2)}>STEREO</button>
+            </div>
+          </div>
+
+          {/* Test record: what the encoder really delivers with these settings */}
+          {format.includeVideo && (
+            <div className="bg-zinc-950 border border-zinc-800 rounded p-2 flex flex-col gap-2">
+              <button
+                onClick={runTest}
+                disabled={isTesting || isRecording}
+                className="h-8 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <FlaskConical size={14} />
+                {isTesting ? `RECORDING ${TEST_SECONDS}s TEST...` : `TEST RECORD (${TEST_SECONDS}s)`}
+              </button>
+              {testResult && (
+                <div className="text-[10px] font-mono text-zinc-400 flex flex-col gap-0.5">
+                  <span className="flex items-center gap-1 text-zinc-200">
+                    {requestedBitrate && testResult.bitrate < requestedBitrate * 0.5
+                      ? <AlertTriangle size={10} className="text-yellow-500" />
+                      : <CheckCircle2 size={10} className="text-green-500" />}
+                    ACHIEVED {formatBitrate(testResult.bitrate)}
+                    {requestedBitrate ? ` (ASKED ${formatBitrate(requestedBitrate)})` : ''}
+                  </span>
+                  <span className="truncate">{testResult.mimeType || 'browser default'}</span>
+                  <span>{(testResult.bytes / 1024).toFixed(0)} KB in {testResult.seconds.toFixed(1)}s</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { LifeBuoy, Download, Trash2, X } from 'lucide-react';
+import { OrphanedTake } from '../utils/takeRecovery';
+
+interface RecoveryDialogProps {
+  takes: OrphanedTake[];
+  onRecover: (take: OrphanedTake) => Promise<void>;
+  onDiscard: (take: OrphanedTake) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Chunks are written once per second (recorder.start(1000))
+const formatDuration = (chunks: number) =>
+  `${Math.floor(chunks / 60).toString().padStart(2, '0')}:${(chunks % 60).toString().padStart(2, '0')}`;
+
+export const RecoveryDialog: React.FC<RecoveryDialogProps> = ({ takes, onRecover, onDiscard, onClose }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const run = async (take: OrphanedTake, action: (take: OrphanedTake) => Promise<void>) => {
+    setBusyId(take.id);
+    try {
+      await action(take);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl w-full max-w-lg flex flex-col max-h-[80vh]">
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <h2 className="text-zinc-100 font-semibold flex items-center gap-2">
+            <LifeBuoy className="w-4 h-4 text-orange-500" />
+            Unsaved Takes Found
+          </h2>
+          <button onClick={onClose} className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800" title="Decide later">
+            <X size={16} />
+          </button>
+        </div>
+
+        <p className="px-4 pt-3 text-xs text-zinc-400">
+          These recordings were interrupted (app closed, reloaded or out of memory) before they were saved.
+          Recovering rebuilds the file from what was written to disk.
+        </p>
+
+        <div className="p-4 flex flex-col gap-2 overflow-y-auto custom-scrollbar">
+          {takes.map(take => (
+            <div key={take.id} className="flex items-center gap-3 bg-zinc-950 border border-zinc-800 rounded p-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-zinc-200 font-mono truncate">{take.filename}</div>
+                <div className="text-[10px] text-zinc-500 font-mono">
+                  {new Date(take.startedAt).toLocaleString()} · ~{formatDuration(take.chunkCount)} · {formatSize(take.size)}
+                </div>
+              </div>
+              <button
+                onClick={() => run(take, onRecover)}
+                disabled={busyId !== null}
+                className="px-2 py-1 rounded bg-orange-600 hover:bg-orange-700 text-white text-xs font-bold flex items-center gap-1 disabled:opacity-50"
+              >
+                <Download size={12} /> SAVE
+              </button>
+              <button
+                onClick={() => run(take, onDiscard)}
+                disabled={busyId !== null}
+                className="p-1.5 rounded text-zinc-500 hover:text-red-500 hover:bg-zinc-800 disabled:opacity-50"
+                title="Delete"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
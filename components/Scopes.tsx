@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Activity, PanelRight, PictureInPicture2, X } from 'lucide-react';
+import { Lut, LutInterpolation, ScopePlacement, ScopeType } from '../types';
+import { grabFrame } from '../utils/frameAnalysis';
+import { drawWaveform, drawParade, drawVectorscope } from '../utils/scopes';
+import { applyLutToImageData } from '../utils/lut';
+
+interface ScopesProps {
+  lut: Lut | null;
+  lutInterpolation: LutInterpolation;
+  placement: ScopePlacement;
+  onChangePlacement: (placement: ScopePlacement) => void;
+}
+
+const SAMPLE_WIDTH = 256;
+const SAMPLE_INTERVAL_MS = 120;
+
+const SCOPE_LABELS: Record<ScopeType, string> = {
+  waveform: 'WAVEFORM',
+  parade: 'RGB PARADE',
+  vectorscope: 'VECTOR'
+};
+
+export const Scopes: React.FC<ScopesProps> = ({ lut, lutInterpolation, placement, onChangePlacement }) => {
+  const [scope, setScope] = useState<ScopeType>('waveform');
+  // Judge the graded image or the untouched log signal
+  const [showGraded, setShowGraded] = useState(true);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    if (!sampleCanvasRef.current) sampleCanvasRef.current = document.createElement('canvas');
+    const gradeWith = showGraded ? lut : null;
+
+    const interval = window.setInterval(() => {
+      // Scopes may be docked outside LiveView, so read the shared video element directly
+      const video = document.getElementById('live-video-element') as HTMLVideoElement | null;
+      const canvas = canvasRef.current;
+      if (!video || !canvas || !sampleCanvasRef.current) return;
+
+      const frame = grabFrame(video, sampleCanvasRef.current, SAMPLE_WIDTH);
+      const ctx = canvas.getContext('2d');
+      if (!frame || !ctx) return;
+      if (gradeWith) applyLutToImageData(frame, gradeWith, lutInterpolation);
+
+      if (scope === 'waveform') drawWaveform(ctx, frame);
+      else if (scope === 'parade') drawParade(ctx, frame);
+      else drawVectorscope(ctx, frame);
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [scope, showGraded, lut, lutInterpolation]);
+
+  const isDocked = placement === 'docked';
+
+  return (
+    <div className={`flex flex-col ${isDocked ? 'bg-zinc-900 border border-zinc-800 rounded-lg p-3 h-full shadow-lg' : 'bg-black/70 border border-white/10 rounded p-2 backdrop-blur-sm w-80'}`}>
+      <div className="flex items-center justify-between mb-2 gap-2">
+        <div className="flex items-center gap-1 text-[10px] font-mono text-zinc-400">
+          <Activity size={12} className="text-orange-500" /> SCOPES
+        </div>
+        <div className="flex gap-1">
+          {(Object.keys(SCOPE_LABELS) as ScopeType[]).map(s => (
+            <button
+              key={s}
+              onClick={() => setScope(s)}
+              className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${scope === s ? 'bg-orange-600 text-white' : 'bg-white/10 text-zinc-400 hover:bg-white/20'}`}
+            >
+              {SCOPE_LABELS[s]}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={() => setShowGraded(prev => !prev)}
+            disabled={!lut}
+            className={`px-1.5 py-0.5 rounded text-[9px] font-bold font-mono ${showGraded && lut ? 'bg-indigo-600 text-white' : 'bg-white/10 text-zinc-400'} disabled:opacity-50`}
+            title="Toggle graded (LUT) / log signal"
+          >
+            {showGraded && lut ? 'LUT' : 'LOG'}
+          </button>
+          <button
+            onClick={() => onChangePlacement(isDocked ? 'overlay' : 'docked')}
+            className="p-0.5 rounded text-zinc-400 hover:text-white hover:bg-white/10"
+            title={isDocked ? 'Float over Live View' : 'Dock in side panel'}
+          >
+            {isDocked ? <PictureInPicture2 size={12} /> : <PanelRight size={12} />}
+          </button>
+          <button
+            onClick={() => onChangePlacement('off')}
+            className="p-0.5 rounded text-zinc-400 hover:text-red-500 hover:bg-white/10"
+            title="Close Scopes"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      </div>
+
+      <div className={`bg-black rounded relative overflow-hidden ${isDocked ? 'flex-1 min-h-[140px]' : 'h-40'}`}>
+        <canvas ref={canvasRef} width={512} height={256} className="w-full h-full" />
+      </div>
+    </div>
+  );
+};
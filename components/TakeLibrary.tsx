@@ -0,0 +1,515 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Library, X, Play, Pause, Download, Share2, Trash2, CircleDot, Ban, Music, CheckSquare, Square, Bookmark, PackageCheck } from 'lucide-react';
+import { LibraryTake, MarkerColor, Shot, TakeMarker, TakeRating } from '../types';
+import { loadTakeMedia, exportTakes, shareTakes, canShareFiles } from '../utils/takeLibrary';
+import { formatBytes } from '../utils/recordingStorage';
+import { MARKER_COLORS, MARKER_SOURCE_LABELS } from '../utils/markers';
+import { MARKER_EXPORT_FORMATS, MarkerExportFormat, exportMarkers } from '../utils/markerExport';
+import { exportSession } from '../utils/sessionExport';
+
+interface TakeLibraryProps {
+  takes: LibraryTake[];
+  shots: Shot[];
+  projectName: string;
+  onUpdate: (take: LibraryTake) => void;
+  onDelete: (ids: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const NO_SHOT = 'No shot';
+
+const formatDuration = (seconds: number) => {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60).toString().padStart(2, '0')}:${(s % 60).toString().padStart(2, '0')}`;
+};
+
+const MARKER_COLOR_LIST = Object.keys(MARKER_COLORS) as MarkerColor[];
+
+const splitExtension = (filename: string) => {
+  const dot = filename.lastIndexOf('.');
+  return dot > 0 ? [filename.slice(0, dot), filename.slice(dot)] : [filename, ''];
+};
+
+const RatingBadge: React.FC<{ rating: TakeRating }> = ({ rating }) => {
+  if (rating === 'circle') return <CircleDot size={12} className="text-green-500 flex-shrink-0" />;
+  if (rating === 'ng') return <Ban size={12} className="text-red-500 flex-shrink-0" />;
+  return null;
+};
+
+// Peak bars; clicking seeks when `onSeek` is given. Markers are at fractions of the length
+const Waveform: React.FC<{
+  peaks: number[];
+  progress?: number;
+  markers?: { position: number; color: MarkerColor }[];
+  onSeek?: (fraction: number) => void;
+  className?: string;
+}> = ({
+  peaks,
+  progress,
+  markers,
+  onSeek,
+  className
+}) => (
+  <svg
+    viewBox={`0 0 ${peaks.length} 100`}
+    preserveAspectRatio="none"
+    className={`${className} ${onSeek ? 'cursor-pointer' : ''}`}
+    onClick={onSeek ? (e) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      onSeek(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)));
+    } : undefined}
+  >
+    {peaks.map((peak, i) => {
+      const height = Math.max(2, peak * 100);
+      const isPlayed = progress !== undefined && i / peaks.length < progress;
+      return <rect key={i} x={i + 0.15} y={(100 - height) / 2} width={0.7} height={height} fill={isPlayed ? '#f97316' : '#52525b'} />;
+    })}
+    {markers?.map((marker, i) => (
+      <line key={i} x1={marker.position * peaks.length} x2={marker.position * peaks.length} y1={0} y2={100} stroke={MARKER_COLORS[marker.color]} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    ))}
+    {progress !== undefined && (
+      <line x1={progress * peaks.length} x2={progress * peaks.length} y1={0} y2={100} stroke="#fff" strokeWidth={0.5} vectorEffect="non-scaling-stroke" />
+    )}
+  </svg>
+);
+
+const TakePlayer: React.FC<{ take: LibraryTake; onChangeMarkers: (markers: TakeMarker[]) => void }> = ({ take, onChangeMarkers }) => {
+  const mediaRef = useRef<HTMLVideoElement & HTMLAudioElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setUrl(null);
+    setIsPlaying(false);
+    setCurrentTime(0);
+    loadTakeMedia(take.id)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(err => console.error("Could not load take for playback", err));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [take.id]);
+
+  // MediaRecorder WebM carries no duration; the stored one drives the scrub bar
+  const duration = take.duration;
+  const seek = (seconds: number) => {
+    if (!mediaRef.current) return;
+    mediaRef.current.currentTime = Math.max(0, Math.min(duration, seconds));
+    setCurrentTime(mediaRef.current.currentTime);
+  };
+
+  const markers = [...take.markers].sort((a, b) => a.time - b.time);
+
+  const updateMarker = (id: string, changes: Partial<TakeMarker>) =>
+    onChangeMarkers(take.markers.map(m => m.id === id ? { ...m, ...changes } : m));
+
+  const nextColor = (color: MarkerColor) =>
+    MARKER_COLOR_LIST[(MARKER_COLOR_LIST.indexOf(color) + 1) % MARKER_COLOR_LIST.length];
+
+  const addMarkerAtPlayhead = () => onChangeMarkers([...take.markers, {
+    id: `mk-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    time: currentTime,
+    color: 'yellow',
+    note: '',
+    source: 'manual'
+  }]);
+
+  const togglePlay = () => {
+    const media = mediaRef.current;
+    if (!media) return;
+    if (media.paused) media.play().catch(err => console.error("Playback failed", err));
+    else media.pause();
+  };
+
+  const mediaProps = {
+    ref: mediaRef,
+    src: url || undefined,
+    onPlay: () => setIsPlaying(true),
+    onPause: () => setIsPlaying(false),
+    onEnded: () => setIsPlaying(false),
+    onTimeUpdate: () => setCurrentTime(mediaRef.current?.currentTime || 0),
+    playsInline: true
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="aspect-video bg-black rounded overflow-hidden flex items-center justify-center">
+        {take.kind === 'video'
+          ? <video {...mediaProps} className="w-full h-full object-contain" />
+          : (
+            <>
+              <audio {...mediaProps} />
+              <Music className="w-12 h-12 text-zinc-700" />
+            </>
+          )}
+      </div>
+      {take.waveform && (
+        <Waveform
+          peaks={take.waveform}
+          progress={duration ? currentTime / duration : 0}
+          markers={duration ? take.markers.map(m => ({ position: m.time / duration, color: m.color })) : undefined}
+          onSeek={f => seek(f * duration)}
+          className="w-full h-12"
+        />
+      )}
+      <div className="flex items-center gap-2">
+        <button onClick={togglePlay} disabled={!url} className="p-2 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-200 disabled:opacity-50">
+          {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={0.04}
+          value={Math.min(currentTime, duration)}
+          onChange={(e) => seek(Number(e.target.value))}
+          disabled={!url}
+          className="flex-1 accent-orange-500"
+        />
+        <span className="text-[10px] font-mono text-zinc-400 w-24 text-right">
+          {formatDuration(currentTime)} / {formatDuration(duration)}
+        </span>
+      </div>
+
+      {/* Markers: click the time to jump there */}
+      <div className="flex flex-col gap-1">
+        {markers.map(marker => (
+          <div key={marker.id} className="flex items-center gap-2 text-[10px] font-mono">
+            <button
+              onClick={() => updateMarker(marker.id, { color: nextColor(marker.color) })}
+              className="w-3 h-3 rounded-full flex-shrink-0"
+              style={{ backgroundColor: MARKER_COLORS[marker.color] }}
+              title="Change color"
+            />
+            <button onClick={() => seek(marker.time)} className="text-zinc-300 hover:text-white w-10 text-left">
+              {formatDuration(marker.time)}
+            </button>
+            <span className="text-zinc-600 w-8">{MARKER_SOURCE_LABELS[marker.source]}</span>
+            <input
+              key={marker.note}
+              defaultValue={marker.note}
+              onBlur={(e) => { if (e.target.value !== marker.note) updateMarker(marker.id, { note: e.target.value.trim() }); }}
+              onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              placeholder="Note"
+              className="flex-1 min-w-0 bg-transparent border-b border-zinc-800 text-zinc-300 focus:outline-none focus:border-orange-600"
+            />
+            <button
+              onClick={() => onChangeMarkers(take.markers.filter(m => m.id !== marker.id))}
+              className="text-zinc-600 hover:text-red-500"
+              title="Remove marker"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={addMarkerAtPlayhead}
+          className="self-start flex items-center gap-1 text-[10px] font-bold text-zinc-500 hover:text-white"
+        >
+          <Bookmark size={10} /> MARK AT {formatDuration(currentTime)}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const TakeLibrary: React.FC<TakeLibraryProps> = ({ takes, shots, projectName, onUpdate, onDelete, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(takes[0]?.id ?? null);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [isBusy, setIsBusy] = useState(false);
+  const [draftName, setDraftName] = useState('');
+  const [draftNotes, setDraftNotes] = useState('');
+  const [markerFormat, setMarkerFormat] = useState<MarkerExportFormat>('csv');
+
+  const selected = takes.find(t => t.id === selectedId) || null;
+
+  // Grouped per shot, shots in order of their latest take
+  const groups = useMemo(() => {
+    const map = new Map<string, LibraryTake[]>();
+    takes.forEach(take => {
+      const key = take.shotName || NO_SHOT;
+      map.set(key, [...(map.get(key) || []), take]);
+    });
+    return Array.from(map.entries());
+  }, [takes]);
+
+  useEffect(() => {
+    setDraftName(selected ? splitExtension(selected.filename)[0] : '');
+    setDraftNotes(selected?.notes || '');
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selected?.id]);
+
+  const checkedTakes = takes.filter(t => checked.has(t.id));
+
+  const toggleChecked = (id: string) => {
+    setChecked(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error(failure, err);
+      alert(`${failure}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = (targets: LibraryTake[]) => {
+    const label = targets.length === 1 ? targets[0].filename : `${targets.length} takes`;
+    if (!window.confirm(`Delete ${label}? This cannot be undone.`)) return;
+    const ids = targets.map(t => t.id);
+    run(async () => {
+      await onDelete(ids);
+      setChecked(prev => new Set(Array.from(prev).filter(id => !ids.includes(id))));
+      if (selectedId && ids.includes(selectedId)) setSelectedId(null);
+    }, 'Delete failed');
+  };
+
+  const commitName = () => {
+    if (!selected) return;
+    const [base, ext] = splitExtension(selected.filename);
+    const name = draftName.trim().replace(/[\\/:*?"<>|]/g, '_');
+    if (!name || name === base) {
+      setDraftName(base);
+      return;
+    }
+    onUpdate({ ...selected, filename: `${name}${ext}` });
+  };
+
+  const commitNotes = () => {
+    if (selected && draftNotes !== selected.notes) onUpdate({ ...selected, notes: draftNotes });
+  };
+
+  const setRating = (rating: TakeRating) => {
+    if (selected) onUpdate({ ...selected, rating: selected.rating === rating ? 'none' : rating });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl w-full max-w-5xl flex flex-col h-[90vh]">
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <h2 className="text-zinc-100 font-semibold flex items-center gap-2">
+            <Library className="w-4 h-4 text-orange-500" />
+            Take Library
+            <span className="text-xs font-mono text-zinc-500">{takes.length} takes</span>
+          </h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => run(async () => exportSession(takes, shots, projectName), 'Session export failed')}
+              disabled={isBusy || takes.length === 0}
+              className="px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-200 text-xs font-bold flex items-center gap-1 disabled:opacity-40"
+              title="FCPXML of all takes, EDL of circled takes and Avid ALE, for the editor"
+            >
+              <PackageCheck size={12} /> WRAP EXPORT
+            </button>
+            <button onClick={onClose} className="p-1 rounded text-zinc-400 hover:text-white hover:bg-zinc-800" title="Close">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        {/* Batch actions */}
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-zinc-800 text-xs">
+          <button
+            onClick={() => setChecked(checked.size === takes.length ? new Set() : new Set(takes.map(t => t.id)))}
+            className="flex items-center gap-1 text-zinc-400 hover:text-white"
+          >
+            {checked.size > 0 && checked.size === takes.length ? <CheckSquare size={14} /> : <Square size={14} />}
+            {checked.size > 0 ? `${checked.size} selected` : 'Select all'}
+          </button>
+          <div className="flex-1" />
+          <button
+            onClick={() => run(() => exportTakes(checkedTakes), 'Export failed')}
+            disabled={isBusy || checkedTakes.length === 0}
+            className="px-2 py-1 rounded bg-orange-600 hover:bg-orange-700 text-white font-bold flex items-center gap-1 disabled:opacity-40"
+          >
+            <Download size={12} /> EXPORT
+          </button>
+          <div className="flex items-center">
+            <select
+              value={markerFormat}
+              onChange={(e) => setMarkerFormat(e.target.value as MarkerExportFormat)}
+              className="bg-zinc-800 border border-zinc-700 rounded-l px-1 py-1 text-[10px] font-mono text-zinc-300 focus:outline-none"
+              title="Marker file format"
+            >
+              {(Object.keys(MARKER_EXPORT_FORMATS) as MarkerExportFormat[]).map(format => (
+                <option key={format} value={format}>{MARKER_EXPORT_FORMATS[format].label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => run(async () => exportMarkers(checkedTakes, markerFormat, projectName), 'Marker export failed')}
+              disabled={isBusy || checkedTakes.length === 0}
+              className="px-2 py-1 rounded-r bg-zinc-800 hover:bg-zinc-700 text-zinc-200 font-bold flex items-center gap-1 disabled:opacity-40"
+              title="Export the markers of the selected takes"
+            >
+              <Bookmark size={12} /> MARKERS
+            </button>
+          </div>
+          {canShareFiles() && (
+            <button
+              onClick={() => run(() => shareTakes(checkedTakes), 'Share failed')}
+              disabled={isBusy || checkedTakes.length === 0}
+              className="px-2 py-1 rounded bg-zinc-800 hover:bg-zinc-700 text-zinc-200 font-bold flex items-center gap-1 disabled:opacity-40"
+            >
+              <Share2 size={12} /> SHARE
+            </button>
+          )}
+          <button
+            onClick={() => handleDelete(checkedTakes)}
+            disabled={isBusy || checkedTakes.length === 0}
+            className="p-1.5 rounded text-zinc-500 hover:text-red-500 hover:bg-zinc-800 disabled:opacity-40"
+            title="Delete selected"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-2">
+          {/* Bin */}
+          <div className="overflow-y-auto custom-scrollbar p-3 flex flex-col gap-3 border-r border-zinc-800">
+            {takes.length === 0 && (
+              <p className="text-xs text-zinc-500 text-center mt-8">No takes yet. Recorded takes appear here for review.</p>
+            )}
+            {groups.map(([shot, shotTakes]) => (
+              <div key={shot} className="flex flex-col gap-1">
+                <h3 className="text-[10px] font-semibold text-zinc-500 uppercase tracking-wider">{shot}</h3>
+                {shotTakes.map(take => (
+                  <div
+                    key={take.id}
+                    onClick={() => setSelectedId(take.id)}
+                    className={`flex items-center gap-2 p-1.5 rounded border cursor-pointer ${
+                      take.id === selectedId ? 'bg-zinc-800 border-orange-600/60' : 'bg-zinc-950 border-zinc-800 hover:border-zinc-700'
+                    } ${take.rating === 'ng' ? 'opacity-60' : ''}`}
+                  >
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleChecked(take.id);
+                      }}
+                      className="text-zinc-500 hover:text-white"
+                    >
+                      {checked.has(take.id) ? <CheckSquare size={14} /> : <Square size={14} />}
+                    </button>
+                    <div className="w-16 h-9 bg-black rounded overflow-hidden flex-shrink-0 flex items-center justify-center">
+                      {take.thumbnail
+                        ? <img src={take.thumbnail} alt="" className="w-full h-full object-cover" />
+                        : take.waveform
+                          ? <Waveform peaks={take.waveform} className="w-full h-full" />
+                          : <Music size={14} className="text-zinc-600" />}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-1">
+                        <RatingBadge rating={take.rating} />
+                        <span className="text-xs text-zinc-200 font-mono truncate">{take.filename}</span>
+                      </div>
+                      <div className="text-[10px] text-zinc-500 font-mono">
+                        {formatDuration(take.duration)} · {formatBytes(take.size)} · {take.timecode ? `TC ${take.timecode}` : new Date(take.createdAt).toLocaleTimeString()}
+                        {take.markers.length > 0 && ` · ◆ ${take.markers.length}`}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {/* Review */}
+          <div className="overflow-y-auto custom-scrollbar p-3">
+            {selected ? (
+              <div className="flex flex-col gap-3">
+                <TakePlayer take={selected} onChangeMarkers={markers => onUpdate({ ...selected, markers })} />
+
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => setRating('circle')}
+                    className={`h-8 rounded text-xs font-bold flex items-center justify-center gap-1 ${
+                      selected.rating === 'circle' ? 'bg-green-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                    }`}
+                  >
+                    <CircleDot size={14} /> CIRCLE
+                  </button>
+                  <button
+                    onClick={() => setRating('ng')}
+                    className={`h-8 rounded text-xs font-bold flex items-center justify-center gap-1 ${
+                      selected.rating === 'ng' ? 'bg-red-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                    }`}
+                  >
+                    <Ban size={14} /> NG
+                  </button>
+                </div>
+
+                <label className="flex flex-col gap-1">
+                  <span className="text-[10px] text-zinc-500 font-mono">NAME</span>
+                  <div className="flex items-center bg-zinc-950 border border-zinc-800 rounded focus-within:border-orange-600">
+                    <input
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitName}
+                      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                      className="flex-1 bg-transparent px-2 py-1 text-xs font-mono text-zinc-200 focus:outline-none"
+                    />
+                    <span className="px-2 text-xs font-mono text-zinc-600">{splitExtension(selected.filename)[1]}</span>
+                  </div>
+                </label>
+
+                <label className="flex flex-col gap-1">
+                  <span className="text-[10px] text-zinc-500 font-mono">NOTES</span>
+                  <textarea
+                    value={draftNotes}
+                    onChange={(e) => setDraftNotes(e.target.value)}
+                    onBlur={commitNotes}
+                    rows={3}
+                    placeholder="e.g. great last line, boom in frame at 00:42"
+                    className="bg-zinc-950 border border-zinc-800 rounded px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:border-orange-600 resize-none"
+                  />
+                </label>
+
+                <div className="flex items-center justify-between text-[10px] font-mono text-zinc-500">
+                  <span>
+                    {selected.shotName ? `${selected.shotName} · TAKE ${selected.take}` : NO_SHOT} · {new Date(selected.createdAt).toLocaleString()}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => run(() => exportTakes([selected]), 'Export failed')}
+                      disabled={isBusy}
+                      className="p-1.5 rounded hover:bg-zinc-800 hover:text-white disabled:opacity-40"
+                      title="Export"
+                    >
+                      <Download size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete([selected])}
+                      disabled={isBusy}
+                      className="p-1.5 rounded hover:bg-zinc-800 hover:text-red-500 disabled:opacity-40"
+                      title="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-zinc-500 text-center mt-8">Select a take to review it.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
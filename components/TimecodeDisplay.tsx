@@ -0,0 +1,26 @@
+import React, { useEffect, useRef } from 'react';
+import { TimecodeSettings } from '../types';
+import { timecodeAt } from '../utils/timecode';
+
+interface TimecodeDisplayProps {
+  settings: TimecodeSettings;
+  className?: string;
+}
+
+// Running timecode. Updates its own text every animation frame instead of
+// re-rendering through React, which would re-render the parent 30 times a second
+export const TimecodeDisplay: React.FC<TimecodeDisplayProps> = ({ settings, className }) => {
+  const textRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    let frameId = 0;
+    const tick = () => {
+      if (textRef.current) textRef.current.textContent = timecodeAt(settings);
+      frameId = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frameId);
+  }, [settings]);
+
+  return <span ref={textRef} className={`font-mono tabular-nums ${className ?? ''}`}>{timecodeAt(settings)}</span>;
+};
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Video, RefreshCw, AlertTriangle } from 'lucide-react';
+import { VideoDevice, VideoInputSettings } from '../types';
+import { VIDEO_FORMATS, findVideoFormat, listVideoDevices } from '../utils/videoInput';
+
+interface VideoSourceProps {
+  videoStream: MediaStream | null;
+  settings: VideoInputSettings;
+  onChange: (settings: VideoInputSettings) => void;
+}
+
+export const VideoSource: React.FC<VideoSourceProps> = ({ videoStream, settings, onChange }) => {
+  const [devices, setDevices] = useState<VideoDevice[]>([]);
+
+  const track = videoStream?.getVideoTracks()[0];
+  const negotiated = track?.getSettings();
+
+  const updateDevices = async () => {
+    try {
+      setDevices(await listVideoDevices());
+    } catch (e) {
+      console.error("Could not enumerate video devices", e);
+    }
+  };
+
+  // Labels are only exposed once a stream is open, so re-list on every new stream
+  useEffect(() => {
+    updateDevices();
+    navigator.mediaDevices.addEventListener?.('devicechange', updateDevices);
+    return () => navigator.mediaDevices.removeEventListener?.('devicechange', updateDevices);
+  }, [videoStream]);
+
+  // In auto mode, move off a built-in camera as soon as a capture card shows up
+  useEffect(() => {
+    if (settings.deviceId || !negotiated?.deviceId) return;
+    const card = devices.find(d => d.isCaptureCard);
+    if (card && card.deviceId !== negotiated.deviceId) onChange({ ...settings, deviceId: card.deviceId });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [devices, negotiated?.deviceId, settings.deviceId]);
+
+  const format = findVideoFormat(settings.formatId);
+  const negotiatedRate = negotiated?.frameRate;
+  const isFormatMismatch = !!negotiated && format.frameRate !== null && (
+    negotiated.width !== format.width ||
+    negotiated.height !== format.height ||
+    (negotiatedRate !== undefined && Math.abs(negotiatedRate - format.frameRate) > 0.5)
+  );
+  const activeDevice = devices.find(d => d.deviceId === negotiated?.deviceId);
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex items-center gap-2">
+        <Video className="w-4 h-4 text-zinc-500 flex-shrink-0" />
+        <select
+          value={settings.deviceId || ''}
+          onChange={(e) => onChange({ ...settings, deviceId: e.target.value || null })}
+          className="bg-zinc-950 text-xs text-zinc-300 border border-zinc-800 rounded px-2 py-1 flex-1 min-w-0 outline-none focus:border-orange-500"
+        >
+          <option value="">AUTO (capture card first)</option>
+          {devices.map(d => (
+            <option key={d.deviceId} value={d.deviceId}>
+              {d.isCaptureCard ? '📡 ' : '📷 '}{d.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={settings.formatId}
+          onChange={(e) => onChange({ ...settings, formatId: e.target.value })}
+          className="bg-zinc-950 text-xs font-mono text-zinc-300 border border-zinc-800 rounded px-2 py-1 outline-none focus:border-orange-500"
+        >
+          {VIDEO_FORMATS.map(f => (
+            <option key={f.id} value={f.id}>{f.label}</option>
+          ))}
+        </select>
+        <button onClick={updateDevices} className="p-1 hover:bg-zinc-800 rounded text-zinc-400" title="Refresh video devices">
+          <RefreshCw size={14} />
+        </button>
+      </div>
+
+      {/* What the source is actually delivering */}
+      <div className={`flex items-center gap-2 text-[10px] font-mono ${isFormatMismatch ? 'text-yellow-500' : 'text-zinc-500'}`}>
+        {isFormatMismatch && <AlertTriangle size={10} />}
+        {negotiated ? (
+          <span className="truncate">
+            IN: {negotiated.width}x{negotiated.height}
+            {negotiatedRate !== undefined && ` @ ${Number(negotiatedRate.toFixed(2))}fps`}
+            {' · '}{activeDevice?.label || track?.label || 'Unknown device'}
+            {isFormatMismatch && ` (asked ${format.label})`}
+          </span>
+        ) : (
+          <span>IN: NO SIGNAL</span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -11,6 +11,41 @@ export interface AudioDevice {
   isExternal: boolean; // True if it looks like a USB/Wireless mic
 }
 
+// An input open next to the main mic, e.g. the camera's own audio embedded in
+// HDMI, which the capture card exposes as a separate device
+export interface AudioInput {
+  deviceId: string;
+  label: string;
+  stream: MediaStream;
+  record: boolean; // Written to its own WAV file with every take
+}
+
+export interface VideoDevice {
+  deviceId: string;
+  label: string;
+  isCaptureCard: boolean; // True if it looks like a USB/HDMI capture device
+}
+
+export interface VideoFormat {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  frameRate: number | null; // null = let the device choose
+}
+
+export interface VideoInputSettings {
+  deviceId: string | null; // null = auto (prefer a capture card)
+  formatId: string;
+}
+
+export type SignalLossReason = 'unplugged' | 'muted' | 'frozen';
+
+export interface SignalLoss {
+  at: Date;
+  reason: SignalLossReason;
+}
+
 export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
@@ -26,6 +61,11 @@ export interface AudioStats {
 
 export type PermissionState = 'prompt' | 'granted' | 'denied';
 
+// What the headphones get from the main input
+export type MonitorMode = 'off' | 'stereo' | 'mono' | 'left' | 'right';
+
+export type MeterBallistics = 'peak' | 'ppm' | 'vu';
+
 // --- NEW FEATURES TYPES ---
 
 export interface Shot {
@@ -35,9 +75,55 @@ export interface Shot {
   take: number;
 }
 
-export type LutPreset = 'none' | 'cinematic' | 'bw' | 'rec709' | 'teal-orange';
+// 'none' or the id of a Lut in the library
+export type LutPreset = string;
+
+export type LutInterpolation = 'trilinear' | 'tetrahedral';
+
+export interface Lut {
+  id: string;
+  title: string;
+  kind: '1d' | '3d';
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  data: Float32Array; // RGB triplets, red index varying fastest (.cube order)
+  builtIn?: boolean;
+}
+
+// Frame line ratio as 'W:H', e.g. '2.39:1' or '9:16'
+export type AspectRatioGuide = string;
 
-export type AspectRatioGuide = 'none' | '9:16' | '4:5' | '1:1';
+export interface FrameGuideSettings {
+  enabled: boolean;
+  ratios: AspectRatioGuide[]; // Frame lines shown together, e.g. 16:9 master plus 9:16 cut-down
+  customRatios: AspectRatioGuide[]; // User-defined ratios offered next to the presets
+  maskOpacity: number; // 0 to 1, darkening outside every active frame
+  lineColor: string; // Hex
+  centerCross: boolean;
+  actionSafe: boolean;
+  titleSafe: boolean;
+}
+
+export interface ChromaKeySettings {
+  similarity: number; // 0 to 1, chroma distance fully keyed out
+  smoothness: number; // 0 to 1, width of the soft edge beyond similarity
+  spill: number; // 0 to 1, how much key-color spill is removed from the foreground
+  showMatte: boolean; // Show the alpha matte instead of the composite
+}
+
+export type ChromaBackgroundKind = 'image' | 'video' | 'solid' | 'checkerboard';
+
+// Background plate shown behind the keyed foreground
+export interface ChromaBackground {
+  kind: ChromaBackgroundKind;
+  color: string; // Hex, for 'solid'
+  mediaId: string | null; // IndexedDB key of the image/video file
+  mediaName: string | null;
+  offsetX: number; // -50 to 50, percent of the frame
+  offsetY: number;
+  scale: number; // 1 = fill the frame
+}
 
 export interface ProductionState {
   activeLut: LutPreset;
@@ -45,6 +131,119 @@ export interface ProductionState {
   isGhostVisible: boolean;
   isChromaActive: boolean;
   chromaColor: string; // Hex
-  aspectRatioGuide: AspectRatioGuide;
+  chromaKey: ChromaKeySettings;
+  chromaBackground: ChromaBackground;
+  frameGuides: FrameGuideSettings;
   isAudioTriggerActive: boolean; // Magic Snap
-}
\ No newline at end of file
+}
+
+// What goes into the recorded file
+export type RecordingSource = 'clean' | 'graded' | 'composite' | 'program';
+
+export interface ProgramOverlays {
+  timecode: boolean;
+  shotName: boolean;
+  frameLines: boolean;
+  watermark: string; // Empty = no watermark
+}
+
+export type WavBitDepth = 16 | 24 | 32; // 32 = IEEE float
+
+export type RecordingContainer = 'webm' | 'mp4';
+
+export type RecordingVideoCodec = 'vp9' | 'vp8' | 'h264' | 'av1';
+
+export interface RecordingFormat {
+  includeVideo: boolean; // false = audio-only takes (WAV) even with a video signal
+  container: RecordingContainer;
+  videoCodec: RecordingVideoCodec;
+  videoBitrate: number; // bits/s, 0 = browser default
+  audioBitrate: number; // bits/s, 0 = browser default
+  audioChannels: 1 | 2;
+}
+
+export interface RecordingOutputSettings {
+  source: RecordingSource;
+  alsoRecordClean: boolean; // Second file with the clean feed when recording a processed one
+  preRollSeconds: number; // 0 = off
+  overlays: ProgramOverlays;
+  wavBitDepth: WavBitDepth; // Audio-only takes and the WAV sidecar
+  wavSidecar: boolean; // Also write a BWF file next to every video take
+  splitMinutes: number; // Roll over to a new file segment after this long, 0 = off
+  splitMegabytes: number; // ...or after this size, 0 = off
+}
+
+export type TimecodeRate = '23.976' | '24' | '25' | '29.97DF' | '30';
+
+export type TimecodeMode = 'tod' | 'freerun';
+
+export interface TimecodeSettings {
+  mode: TimecodeMode;
+  rate: TimecodeRate;
+  freeRunStart: string; // HH:MM:SS:FF the free-run counter was jammed to...
+  freeRunStartedAt: number; // ...at this moment (epoch ms)
+  burnIn: boolean; // Burn into recordings (the clean second file stays clean)
+  ltcEnabled: boolean; // LTC audio on the phone's audio output
+  ltcChannel: 'left' | 'right';
+}
+
+export type TakeRating = 'none' | 'circle' | 'ng';
+
+export type MarkerColor = 'red' | 'yellow' | 'green' | 'cyan' | 'blue' | 'purple';
+export type MarkerSource = 'manual' | 'clipping' | 'snap' | 'signal';
+
+// A point of interest inside a take ("good line", clipping...)
+export interface TakeMarker {
+  id: string;
+  time: number; // Seconds from the start of the file
+  color: MarkerColor;
+  note: string;
+  source: MarkerSource;
+}
+
+// A finished take kept on the device for review (the media itself is stored separately)
+export interface LibraryTake {
+  id: string;
+  filename: string; // Including extension
+  mimeType: string;
+  kind: 'video' | 'audio';
+  shotId: string | null;
+  shotName: string | null;
+  take: number | null;
+  createdAt: number;
+  timecode: string | null; // Start timecode of the file
+  timecodeRate: TimecodeRate | null;
+  duration: number; // Seconds
+  sampleRate: number | null; // Hz, known for WAV takes (the AudioContext's rate)
+  frameSize: { width: number; height: number } | null; // Video takes, as the source was when the file closed
+  size: number; // Bytes
+  thumbnail: string | null; // JPEG data URL
+  waveform: number[] | null; // Peak per bin, 0 to 1
+  rating: TakeRating;
+  notes: string;
+  markers: TakeMarker[];
+}
+
+export type HistogramMode = 'luma' | 'rgb' | 'parade';
+
+export type ScopeType = 'waveform' | 'parade' | 'vectorscope';
+
+export type ScopePlacement = 'off' | 'overlay' | 'docked';
+
+export type PeakingColor = 'red' | 'yellow' | 'white' | 'blue';
+
+export type PeakingLevel = 'low' | 'mid' | 'high';
+
+export type MagnifierZoom = 2 | 4 | 8;
+
+export type MagnifierMode = 'fullscreen' | 'loupe';
+
+export type ExposureProfile = 'rec709' | 'slog2';
+
+export interface ExposureAssistSettings {
+  zebrasEnabled: boolean;
+  zebraLow: number; // IRE, stripes between low and high
+  zebraHigh: number; // IRE, stripes above high
+  falseColorEnabled: boolean;
+  profile: ExposureProfile; // Picks false-color bands and zebra presets
+}
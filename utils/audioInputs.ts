@@ -0,0 +1,17 @@
+// Opening audio devices for monitoring and recording. Processing is turned off
+// so what's recorded is what the mic or camera sends.
+
+export const openAudioInput = (deviceId?: string) =>
+  navigator.mediaDevices.getUserMedia({
+    audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      echoCancellation: false,
+      autoGainControl: false,
+      noiseSuppression: false,
+      channelCount: 2
+    }
+  });
+
+/** Filename suffix for an input's WAV, e.g. "USB_Capture_HDMI" from "USB Capture HDMI (534d:2109)". */
+export const inputFileSuffix = (label: string) =>
+  label.replace(/\(.*?\)/g, '').trim().replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '').slice(0, 24) || 'Input';
@@ -0,0 +1,34 @@
+// Mono/stereo for compressed recordings. MediaRecorder takes whatever layout
+// the track has, so the mic is routed through a MediaStreamDestination with a
+// fixed channel count ('speakers' interpretation: stereo folds down to mono as
+// (L+R)/2, mono is copied to both sides). The same path delays the audio by
+// the A/V offset so it lines up with the later-arriving HDMI picture.
+
+import { MAX_AV_OFFSET_MS } from './avSync';
+
+export interface AudioMix {
+  stream: MediaStream;
+  close: () => void;
+}
+
+export const mixAudioChannels = (stream: MediaStream, channels: 1 | 2, delayMs = 0): AudioMix => {
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  const delay = context.createDelay(MAX_AV_OFFSET_MS / 1000);
+  delay.delayTime.value = delayMs / 1000;
+  const destination = context.createMediaStreamDestination();
+  destination.channelCount = channels;
+  destination.channelCountMode = 'explicit';
+  destination.channelInterpretation = 'speakers';
+  source.connect(delay);
+  delay.connect(destination);
+  if (context.state === 'suspended') context.resume().catch(() => {});
+
+  return {
+    stream: destination.stream,
+    close: () => {
+      source.disconnect();
+      context.close().catch(() => {});
+    }
+  };
+};
@@ -0,0 +1,149 @@
+// Audio/video sync. The HDMI capture path delays the picture (typically
+// 50-250 ms) while the external mic arrives almost at once, so recorded audio
+// is delayed by the measured offset. Each capture card + mic pair has its own
+// latency, so offsets are stored per combination.
+//
+// Auto-calibration fires the digital slate with the camera pointed at this
+// screen: the flash comes back through the capture card, the beep through the
+// mic, and the difference between the two arrival times is the offset.
+
+import { grabFrame, lumaOf } from './frameAnalysis';
+
+const OFFSETS_KEY = 'a6000.avOffsets';
+export const MAX_AV_OFFSET_MS = 1000;
+
+const CALIBRATION_RUNS = 3;
+const BASELINE_MS = 500;
+const DETECT_TIMEOUT_MS = 1500;
+const SETTLE_MS = 800; // Flash fade-out and room echo between runs
+const FRAME_WIDTH = 64;
+const FLASH_LUMA_RISE = 60; // Per pixel, 8-bit
+const FLASH_MIN_FRACTION = 0.02; // The screen may be small in the shot
+const BEEP_HZ = 1000;
+const BEEP_MIN_LEVEL = 0.02;
+// The flash appears on the next screen refresh after it is triggered
+const DISPLAY_DELAY_MS = 1000 / 60;
+
+/** Identifies the capture card + mic pair, or null until both are open. */
+export const avDeviceKey = (videoStream: MediaStream | null, audioStream: MediaStream | null): string | null => {
+  const video = videoStream?.getVideoTracks()[0];
+  const audio = audioStream?.getAudioTracks()[0];
+  if (!video || !audio) return null;
+  return `${video.getSettings().deviceId || video.label}|${audio.getSettings().deviceId || audio.label}`;
+};
+
+const loadOffsets = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(OFFSETS_KEY) || '{}');
+  } catch (e) {
+    console.warn("Could not read A/V offsets", e);
+    return {};
+  }
+};
+
+export const loadAvOffset = (key: string): number => loadOffsets()[key] ?? 0;
+
+export const saveAvOffset = (key: string, offsetMs: number) => {
+  try {
+    localStorage.setItem(OFFSETS_KEY, JSON.stringify({ ...loadOffsets(), [key]: offsetMs }));
+  } catch (e) {
+    console.warn("Could not save A/V offset", e);
+  }
+};
+
+export const clampAvOffset = (offsetMs: number) => Math.max(0, Math.min(MAX_AV_OFFSET_MS, Math.round(offsetMs)));
+
+export interface AvMeasurement {
+  offsetMs: number; // Median of the runs
+  runs: number[];
+}
+
+interface MeasureOptions {
+  video: HTMLVideoElement;
+  audioStream: MediaStream;
+  /** Fires the slate; returns how long until the beep is actually audible (ms). */
+  fireSlate: () => number;
+}
+
+const nextFrame = () => new Promise<number>(resolve => requestAnimationFrame(resolve));
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const measureAvOffset = async ({ video, audioStream, fireSlate }: MeasureOptions): Promise<AvMeasurement> => {
+  const context = new AudioContext();
+  const canvas = document.createElement('canvas');
+  try {
+    // Only the slate tone, not voices or handling noise
+    const source = context.createMediaStreamSource(audioStream);
+    const filter = context.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.frequency.value = BEEP_HZ;
+    filter.Q.value = 8;
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(filter);
+    filter.connect(analyser);
+    if (context.state === 'suspended') await context.resume();
+    const samples = new Float32Array(analyser.fftSize);
+
+    const readLuma = () => {
+      const frame = grabFrame(video, canvas, FRAME_WIDTH);
+      if (!frame) return null;
+      const luma = new Float32Array(frame.width * frame.height);
+      for (let i = 0; i < luma.length; i++) luma[i] = lumaOf(frame.data[i * 4], frame.data[i * 4 + 1], frame.data[i * 4 + 2]);
+      return luma;
+    };
+
+    // Time (performance.now) of the first sample above `level` in the analyser window, if any
+    const findOnset = (level: number, now: number) => {
+      analyser.getFloatTimeDomainData(samples);
+      const index = samples.findIndex(v => Math.abs(v) > level);
+      return index === -1 ? null : now - (samples.length - index) / context.sampleRate * 1000;
+    };
+
+    const runs: number[] = [];
+    for (let run = 0; run < CALIBRATION_RUNS; run++) {
+      // Baseline: the picture without flash and the room level at 1 kHz
+      let reference: Float32Array | null = null;
+      let noise = 0;
+      const baselineEnd = performance.now() + BASELINE_MS;
+      while (performance.now() < baselineEnd) {
+        await nextFrame();
+        reference = readLuma() ?? reference;
+        analyser.getFloatTimeDomainData(samples);
+        samples.forEach(v => { noise = Math.max(noise, Math.abs(v)); });
+      }
+      if (!reference) throw new Error('No video signal to calibrate with');
+      const beepLevel = Math.max(BEEP_MIN_LEVEL, noise * 4);
+
+      const firedAt = performance.now();
+      const beepDelay = fireSlate();
+      let flashAt: number | null = null;
+      let beepAt: number | null = null;
+      while (performance.now() - firedAt < DETECT_TIMEOUT_MS && (flashAt === null || beepAt === null)) {
+        const now = await nextFrame();
+        if (beepAt === null) beepAt = findOnset(beepLevel, performance.now());
+        if (flashAt === null) {
+          const luma = readLuma();
+          if (luma && reference.length === luma.length) {
+            let bright = 0;
+            for (let i = 0; i < luma.length; i++) if (luma[i] - reference[i] > FLASH_LUMA_RISE) bright++;
+            if (bright / luma.length > FLASH_MIN_FRACTION) flashAt = now;
+          }
+        }
+      }
+      if (flashAt === null) throw new Error('Flash not seen. Point the camera at this screen, close enough to fill part of the frame.');
+      if (beepAt === null) throw new Error('Beep not heard. Turn up the phone volume and keep the mic near the speaker.');
+
+      // Each path's delay from the moment its signal actually left the phone
+      const videoDelay = flashAt - firedAt - DISPLAY_DELAY_MS;
+      const audioDelay = beepAt - firedAt - beepDelay;
+      runs.push(Math.round(videoDelay - audioDelay));
+      await wait(SETTLE_MS);
+    }
+
+    const sorted = [...runs].sort((a, b) => a - b);
+    return { offsetMs: clampAvOffset(sorted[Math.floor(sorted.length / 2)]), runs };
+  } finally {
+    context.close().catch(() => {});
+  }
+};
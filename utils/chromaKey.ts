@@ -0,0 +1,65 @@
+// Chroma keyer shared by the worker and the main-thread fallback.
+// Keys on distance in the Cb/Cr plane (brightness independent, so shadows on
+// the screen still key) with a soft edge and key-channel spill suppression.
+
+import { ChromaKeySettings } from '../types';
+
+export const CHROMA_PRESETS = {
+  green: '#00b140',
+  blue: '#0047bb'
+};
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+export const rgbToHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+// BT.709 chroma, normalised to -0.5..0.5
+const toCbCr = (r: number, g: number, b: number) => {
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return [(b - y) / 1.8556 / 255, (r - y) / 1.5748 / 255];
+};
+
+/** Keys RGBA pixels in place, writing alpha (or the matte when `showMatte`). */
+export const keyPixels = (data: Uint8ClampedArray, keyColor: string, settings: ChromaKeySettings) => {
+  const key = hexToRgb(keyColor);
+  const [keyCb, keyCr] = toCbCr(key[0], key[1], key[2]);
+  // Spill lives in whichever channel dominates the key color (G for green, B for blue)
+  const spillChannel = key[1] >= key[2] ? 1 : 2;
+  const otherChannel = spillChannel === 1 ? 2 : 1;
+
+  const similarity = settings.similarity * 0.5;
+  const smoothness = Math.max(0.001, settings.smoothness * 0.5);
+  const { spill, showMatte } = settings;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+
+    const [cb, cr] = toCbCr(r, g, b);
+    const distance = Math.hypot(cb - keyCb, cr - keyCr);
+    const t = Math.max(0, Math.min(1, (distance - similarity) / smoothness));
+    const alpha = t * t * (3 - 2 * t);
+
+    if (showMatte) {
+      const v = alpha * 255;
+      data[i] = v;
+      data[i + 1] = v;
+      data[i + 2] = v;
+      data[i + 3] = 255;
+      continue;
+    }
+
+    if (spill > 0) {
+      // Clamp the key channel towards the larger of the other two
+      const limit = Math.max(r, data[i + otherChannel]);
+      const excess = data[i + spillChannel] - limit;
+      if (excess > 0) data[i + spillChannel] -= excess * spill;
+    }
+    data[i + 3] = alpha * 255;
+  }
+};
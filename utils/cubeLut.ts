@@ -0,0 +1,82 @@
+// Parser for Adobe/Resolve .cube LUT files (1D and 3D).
+
+import { Lut } from '../types';
+
+const MAX_3D_SIZE = 65;
+const MAX_1D_SIZE = 65536;
+
+const parseNumbers = (parts: string[], count: number, lineNo: number) => {
+  const values = parts.map(Number);
+  if (values.length !== count || values.some(v => !Number.isFinite(v))) {
+    throw new Error(`Line ${lineNo}: expected ${count === 2 ? 'two' : 'three'} numbers`);
+  }
+  return values;
+};
+
+const parseTriplet = (parts: string[], lineNo: number) =>
+  parseNumbers(parts, 3, lineNo) as [number, number, number];
+
+/**
+ * Parses the text of a .cube file. Throws an Error describing the first
+ * problem found (unknown size, wrong number of entries, bad numbers).
+ */
+export const parseCubeLut = (text: string, fallbackTitle: string): Lut => {
+  let title = fallbackTitle;
+  let kind: Lut['kind'] | null = null;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+
+    if (keyword === 'TITLE') {
+      title = line.slice(5).trim().replace(/^"|"$/g, '') || fallbackTitle;
+    } else if (keyword === 'LUT_3D_SIZE' || keyword === 'LUT_1D_SIZE') {
+      kind = keyword === 'LUT_3D_SIZE' ? '3d' : '1d';
+      size = parseInt(parts[1], 10);
+      const max = kind === '3d' ? MAX_3D_SIZE : MAX_1D_SIZE;
+      if (!Number.isInteger(size) || size < 2 || size > max) {
+        throw new Error(`Line ${i + 1}: unsupported ${keyword} ${parts[1]}`);
+      }
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = parseTriplet(parts.slice(1), i + 1);
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = parseTriplet(parts.slice(1), i + 1);
+    } else if (keyword === 'LUT_1D_INPUT_RANGE' || keyword === 'LUT_3D_INPUT_RANGE') {
+      // Resolve's single-range variant
+      const [min, max] = parseNumbers(parts.slice(1), 2, i + 1);
+      domainMin = [min, min, min];
+      domainMax = [max, max, max];
+    } else if (/^[-+.\d]/.test(keyword)) {
+      values.push(...parseTriplet(parts, i + 1));
+    }
+    // Any other keyword (e.g. vendor extensions) is ignored
+  }
+
+  if (!kind) throw new Error('Missing LUT_3D_SIZE or LUT_1D_SIZE');
+
+  const expected = (kind === '3d' ? size * size * size : size) * 3;
+  if (values.length !== expected) {
+    throw new Error(`Expected ${expected / 3} entries for a ${size}${kind === '3d' ? '³' : ''} LUT, found ${values.length / 3}`);
+  }
+  if (domainMin.some((min, c) => domainMax[c] <= min)) {
+    throw new Error('DOMAIN_MAX must be greater than DOMAIN_MIN');
+  }
+
+  return {
+    id: `cube-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    title,
+    kind,
+    size,
+    domainMin,
+    domainMax,
+    data: new Float32Array(values)
+  };
+};
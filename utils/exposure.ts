@@ -0,0 +1,105 @@
+// Zebra and false-color renderers. Both read luma in IRE (see lumaToIre) from a
+// downscaled frame and produce an overlay image of the same size.
+
+import { ExposureProfile } from '../types';
+import { lumaOf, lumaToIre } from './frameAnalysis';
+
+export const ZEBRA_PRESETS: Record<ExposureProfile, { low: number; high: number }> = {
+  // Classic skin (70%) and clipping (100%) zebras for a display-referred signal
+  rec709: { low: 70, high: 100 },
+  // S-Log2 puts 90% white around 59 IRE and runs out of sensor range a few
+  // percent above 100, so the warnings move accordingly
+  slog2: { low: 59, high: 104 }
+};
+
+export interface FalseColorBand {
+  from: number; // IRE, inclusive
+  to: number; // IRE, exclusive
+  color: [number, number, number];
+  label: string;
+}
+
+export const FALSE_COLOR_BANDS: Record<ExposureProfile, FalseColorBand[]> = {
+  rec709: [
+    { from: -Infinity, to: 2.5, color: [128, 0, 160], label: 'Crushed' },
+    { from: 2.5, to: 10, color: [30, 80, 255], label: 'Shadows' },
+    { from: 38, to: 45, color: [40, 200, 60], label: '18% Grey' },
+    { from: 52, to: 58, color: [255, 120, 170], label: 'Skin +1' },
+    { from: 94, to: 99, color: [255, 230, 0], label: 'Near Clip' },
+    { from: 99, to: Infinity, color: [230, 20, 20], label: 'Clipped' }
+  ],
+  slog2: [
+    { from: -Infinity, to: 4, color: [128, 0, 160], label: 'Crushed' },
+    { from: 4, to: 12, color: [30, 80, 255], label: 'Shadows' },
+    { from: 30, to: 34, color: [40, 200, 60], label: '18% Grey' },
+    { from: 39, to: 44, color: [255, 120, 170], label: 'Skin +1' },
+    { from: 98, to: 104, color: [255, 230, 0], label: 'Near Clip' },
+    { from: 104, to: Infinity, color: [230, 20, 20], label: 'Clipped' }
+  ]
+};
+
+// 256-entry lookup: code value -> band color, or null to show grey
+const bandLookup = (profile: ExposureProfile) => {
+  const bands = FALSE_COLOR_BANDS[profile];
+  return Array.from({ length: 256 }, (_, y) => {
+    const ire = lumaToIre(y);
+    return bands.find(b => ire >= b.from && ire < b.to)?.color ?? null;
+  });
+};
+
+const lookups: Partial<Record<ExposureProfile, ([number, number, number] | null)[]>> = {};
+
+export const renderFalseColor = (frame: ImageData, profile: ExposureProfile, out: ImageData) => {
+  const lookup = lookups[profile] ?? (lookups[profile] = bandLookup(profile));
+  const src = frame.data;
+  const dst = out.data;
+  for (let i = 0; i < src.length; i += 4) {
+    const y = Math.round(lumaOf(src[i], src[i + 1], src[i + 2]));
+    const color = lookup[y];
+    if (color) {
+      dst[i] = color[0];
+      dst[i + 1] = color[1];
+      dst[i + 2] = color[2];
+    } else {
+      // Unflagged areas become dimmed monochrome so the bands pop
+      const grey = y * 0.6;
+      dst[i] = grey;
+      dst[i + 1] = grey;
+      dst[i + 2] = grey;
+    }
+    dst[i + 3] = 255;
+  }
+};
+
+const STRIPE_PERIOD = 8;
+const STRIPE_WIDTH = 3;
+
+/**
+ * Paints diagonal zebra stripes into `out` (leaving other pixels untouched):
+ * white stripes between `low` and `high` IRE, red stripes running the other
+ * way above `high`. `phase` animates the stripes so they read as an overlay.
+ */
+export const renderZebras = (frame: ImageData, low: number, high: number, phase: number, out: ImageData) => {
+  const { width, data: src } = frame;
+  const dst = out.data;
+  for (let i = 0, p = 0; i < src.length; i += 4, p++) {
+    const ire = lumaToIre(lumaOf(src[i], src[i + 1], src[i + 2]));
+    if (ire < low) continue;
+
+    const x = p % width;
+    const y = (p - x) / width;
+    if (ire >= high) {
+      if ((((x - y + phase) % STRIPE_PERIOD) + STRIPE_PERIOD) % STRIPE_PERIOD < STRIPE_WIDTH) {
+        dst[i] = 255;
+        dst[i + 1] = 40;
+        dst[i + 2] = 40;
+        dst[i + 3] = 230;
+      }
+    } else if ((x + y + phase) % STRIPE_PERIOD < STRIPE_WIDTH) {
+      dst[i] = 255;
+      dst[i + 1] = 255;
+      dst[i + 2] = 255;
+      dst[i + 3] = 200;
+    }
+  }
+};
@@ -0,0 +1,197 @@
+// Shared helpers for analysing live video frames (histogram, scopes, exposure tools).
+// Everything here works on small, downscaled copies of the frame so the analysis
+// never competes with the full-resolution preview.
+
+// Rec.709 luma coefficients
+export const lumaOf = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+// 8-bit code value to IRE using video (legal) levels: 16 = 0%, 235 = 100%, 255 = 109%
+export const lumaToIre = (y: number) => (y - 16) / 219 * 100;
+export const ireToLuma = (ire: number) => ire / 100 * 219 + 16;
+
+/**
+ * Draws the current video frame into `canvas`, scaled down to `targetWidth`
+ * (aspect preserved), and returns its pixels. Returns null while the video
+ * has no decodable frame yet.
+ */
+export const grabFrame = (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  targetWidth: number
+): ImageData | null => {
+  if (video.readyState < video.HAVE_CURRENT_DATA || !video.videoWidth) return null;
+
+  const width = Math.min(targetWidth, video.videoWidth);
+  const height = Math.max(1, Math.round(width * video.videoHeight / video.videoWidth));
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Calls `onFrame` every time `video` presents a new frame, however static the
+ * picture is. Returns a function that stops watching, or null where the
+ * browser has no requestVideoFrameCallback.
+ */
+export const watchVideoFrames = (video: HTMLVideoElement, onFrame: () => void): (() => void) | null => {
+  if (!('requestVideoFrameCallback' in video)) return null;
+  let handle = 0;
+  let isWatching = true;
+  const next = () => {
+    if (!isWatching) return;
+    handle = video.requestVideoFrameCallback(next);
+    onFrame();
+  };
+  handle = video.requestVideoFrameCallback(next);
+  return () => {
+    isWatching = false;
+    video.cancelVideoFrameCallback(handle);
+  };
+};
+
+// Frames presented so far, for browsers without requestVideoFrameCallback
+export const presentedFrameCount = (video: HTMLVideoElement) => video.getVideoPlaybackQuality?.().totalVideoFrames ?? 0;
+
+export interface HistogramData {
+  luma: Uint32Array;
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  total: number;
+}
+
+export const computeHistogram = (frame: ImageData): HistogramData => {
+  const luma = new Uint32Array(256);
+  const red = new Uint32Array(256);
+  const green = new Uint32Array(256);
+  const blue = new Uint32Array(256);
+  const data = frame.data;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    red[r]++;
+    green[g]++;
+    blue[b]++;
+    luma[Math.round(lumaOf(r, g, b))]++;
+  }
+
+  return { luma, red, green, blue, total: data.length / 4 };
+};
+
+// Fraction (0 to 1) of pixels sitting in the outermost `width` bins at each end.
+export const clippedFraction = (bins: Uint32Array, total: number, width = 2) => {
+  if (!total) return { low: 0, high: 0 };
+  let low = 0;
+  let high = 0;
+  for (let i = 0; i < width; i++) {
+    low += bins[i];
+    high += bins[bins.length - 1 - i];
+  }
+  return { low: low / total, high: high / total };
+};
+
+/**
+ * Focus peaking mask: Sobel gradient magnitude of the luma channel, painted
+ * in `color` wherever it exceeds `threshold` (0 to ~1440 for 8-bit input).
+ * Returns a transparent image of the same size with only the edges set.
+ */
+export const computePeakingMask = (
+  frame: ImageData,
+  threshold: number,
+  color: [number, number, number]
+): ImageData => {
+  const { width, height, data } = frame;
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    luma[p] = lumaOf(data[i], data[i + 1], data[i + 2]);
+  }
+
+  const mask = new ImageData(width, height);
+  const out = mask.data;
+  const t2 = threshold * threshold;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const tl = luma[p - width - 1], tc = luma[p - width], tr = luma[p - width + 1];
+      const ml = luma[p - 1], mr = luma[p + 1];
+      const bl = luma[p + width - 1], bc = luma[p + width], br = luma[p + width + 1];
+
+      const gx = (tr + 2 * mr + br) - (tl + 2 * ml + bl);
+      const gy = (bl + 2 * bc + br) - (tl + 2 * tc + tr);
+
+      if (gx * gx + gy * gy > t2) {
+        out[p * 4] = color[0];
+        out[p * 4 + 1] = color[1];
+        out[p * 4 + 2] = color[2];
+        out[p * 4 + 3] = 255;
+      }
+    }
+  }
+
+  return mask;
+};
+
+/**
+ * Maps a pointer position over an object-contain video to source pixel
+ * coordinates. `box` is the element the picture is fitted into (the video may
+ * be hidden behind a processed canvas). Returns null in the letterbox.
+ */
+export const clientToVideoPoint = (video: HTMLVideoElement, box: Element, clientX: number, clientY: number) => {
+  const rect = box.getBoundingClientRect();
+  const vw = video.videoWidth;
+  const vh = video.videoHeight;
+  if (!vw || !vh || !rect.width || !rect.height) return null;
+
+  const scale = Math.min(rect.width / vw, rect.height / vh);
+  const offsetX = (rect.width - vw * scale) / 2;
+  const offsetY = (rect.height - vh * scale) / 2;
+  const x = (clientX - rect.left - offsetX) / scale;
+  const y = (clientY - rect.top - offsetY) / scale;
+  if (x < 0 || y < 0 || x >= vw || y >= vh) return null;
+  return { x, y };
+};
+
+// Inverse of clientToVideoPoint: source pixels to coordinates inside `box`,
+// plus the display scale (CSS px per source px)
+export const videoToBoxPoint = (video: HTMLVideoElement, box: Element, x: number, y: number) => {
+  const rect = box.getBoundingClientRect();
+  const vw = video.videoWidth;
+  const vh = video.videoHeight;
+  if (!vw || !vh || !rect.width || !rect.height) return null;
+
+  const scale = Math.min(rect.width / vw, rect.height / vh);
+  return {
+    x: (rect.width - vw * scale) / 2 + x * scale,
+    y: (rect.height - vh * scale) / 2 + y * scale,
+    scale
+  };
+};
+
+// Average color of a small square around (x, y) in source pixels
+export const sampleVideoColor = (video: HTMLVideoElement, x: number, y: number, radius = 3): [number, number, number] | null => {
+  const size = radius * 2 + 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(video, Math.round(x) - radius, Math.round(y) - radius, size, size, 0, 0, size, size);
+  const data = ctx.getImageData(0, 0, size, size).data;
+  const sum = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    sum[0] += data[i];
+    sum[1] += data[i + 1];
+    sum[2] += data[i + 2];
+  }
+  const count = data.length / 4;
+  return [sum[0] / count, sum[1] / count, sum[2] / count];
+};
@@ -0,0 +1,34 @@
+// Frame line geometry. Ratios are stored as 'W:H' strings (e.g. '2.39:1',
+// '9:16') so presets and user-defined ratios are handled the same way.
+
+import { AspectRatioGuide } from '../types';
+
+export const FRAME_GUIDE_PRESETS: AspectRatioGuide[] = ['2.39:1', '2:1', '1.85:1', '16:9', '4:3', '9:16', '4:5', '1:1'];
+
+// EBU R 95 safe areas as a fraction of the picture width/height
+export const SAFE_AREAS = {
+  action: 0.93,
+  title: 0.9
+};
+
+/** Returns width / height, or null when the string isn't a usable ratio. */
+export const parseRatio = (guide: string): number | null => {
+  const match = guide.trim().match(/^(\d+(?:\.\d+)?)\s*[:x/]\s*(\d+(?:\.\d+)?)$/i);
+  if (!match) return null;
+  const ratio = parseFloat(match[1]) / parseFloat(match[2]);
+  return isFinite(ratio) && ratio > 0 ? ratio : null;
+};
+
+/** Normalises user input ('2.35 x 1', '3/2') to the stored 'W:H' form. */
+export const formatRatio = (guide: string): AspectRatioGuide | null => {
+  const match = guide.trim().match(/^(\d+(?:\.\d+)?)\s*[:x/]\s*(\d+(?:\.\d+)?)$/i);
+  if (!match || !parseRatio(guide)) return null;
+  return `${parseFloat(match[1])}:${parseFloat(match[2])}`;
+};
+
+/** Largest centred rectangle of `ratio` inside a `width` x `height` picture. */
+export const fitGuide = (ratio: number, width: number, height: number) => {
+  const w = Math.min(width, height * ratio);
+  const h = w / ratio;
+  return { x: (width - w) / 2, y: (height - h) / 2, width: w, height: h };
+};
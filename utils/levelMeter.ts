@@ -0,0 +1,79 @@
+// Channel level meters in dBFS with selectable ballistics, fed once per
+// animation frame with the analyser's latest window:
+// - PEAK: digital sample peak, instant attack, 20 dB/s fall
+// - PPM: quasi-peak over 10 ms (IEC 60268-10 Type I), 20 dB fall in 1.5 s
+// - VU: 300 ms average, rising and falling alike
+// All hold their highest reading for PEAK_HOLD_MS.
+
+import { MeterBallistics } from '../types';
+import { rmsOf } from './stereoMeter';
+
+export const METER_FLOOR_DB = -60;
+// Where a float sample stops: the converter is at digital full scale
+export const CLIP_LEVEL = 0.999;
+const PEAK_HOLD_MS = 2000;
+const PEAK_FALL_DB_PER_S = 20;
+const PPM_FALL_DB_PER_S = 20 / 1.5;
+const PPM_WINDOW_SECONDS = 0.01;
+const VU_TIME_CONSTANT_MS = 300 / 4.6; // 99% of a step in 300 ms
+
+export const METER_BALLISTICS: { ballistics: MeterBallistics; label: string; title: string }[] = [
+  { ballistics: 'peak', label: 'PEAK', title: 'Sample peak, instant' },
+  { ballistics: 'ppm', label: 'PPM', title: 'Quasi-peak, 10 ms integration' },
+  { ballistics: 'vu', label: 'VU', title: 'Average, 300 ms' }
+];
+
+export const dbfsOf = (linear: number) => linear > 0 ? Math.max(METER_FLOOR_DB, 20 * Math.log10(linear)) : METER_FLOOR_DB;
+
+/** 0..1 position on a METER_FLOOR_DB..0 dBFS scale. */
+export const meterFraction = (db: number) => Math.max(0, Math.min(1, 1 - db / METER_FLOOR_DB));
+
+export const samplePeakOf = (samples: Float32Array) => {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const magnitude = Math.abs(samples[i]);
+    if (magnitude > peak) peak = magnitude;
+  }
+  return peak;
+};
+
+// Loudest 10 ms stretch, scaled so a sine reads its peak
+const quasiPeakOf = (samples: Float32Array, sampleRate: number) => {
+  const window = Math.max(1, Math.round(sampleRate * PPM_WINDOW_SECONDS));
+  let loudest = 0;
+  for (let start = 0; start + window <= samples.length; start += window) {
+    let sum = 0;
+    for (let i = start; i < start + window; i++) sum += samples[i] * samples[i];
+    loudest = Math.max(loudest, sum / window);
+  }
+  return Math.sqrt(loudest * 2);
+};
+
+export class ChannelMeter {
+  level = METER_FLOOR_DB; // dBFS as displayed
+  hold = METER_FLOOR_DB;
+  private holdUntil = 0;
+  private lastUpdate = 0;
+  private vuPower = 0;
+
+  update(samples: Float32Array, sampleRate: number, ballistics: MeterBallistics, now: number) {
+    const elapsed = this.lastUpdate ? Math.min(0.5, (now - this.lastUpdate) / 1000) : 0;
+    this.lastUpdate = now;
+
+    if (ballistics === 'vu') {
+      // Averaged as power, so a steady sine reads its RMS
+      const rms = rmsOf(samples);
+      this.vuPower += (rms * rms - this.vuPower) * (1 - Math.exp(-elapsed * 1000 / VU_TIME_CONSTANT_MS));
+      this.level = dbfsOf(Math.sqrt(this.vuPower));
+    } else {
+      const reading = dbfsOf(ballistics === 'peak' ? samplePeakOf(samples) : quasiPeakOf(samples, sampleRate));
+      const fall = (ballistics === 'peak' ? PEAK_FALL_DB_PER_S : PPM_FALL_DB_PER_S) * elapsed;
+      this.level = Math.max(reading, this.level - fall);
+    }
+
+    if (this.level >= this.hold || now > this.holdUntil) {
+      this.hold = this.level;
+      this.holdUntil = now + PEAK_HOLD_MS;
+    }
+  }
+}
@@ -0,0 +1,126 @@
+// EBU R128 loudness of the main input. The worklet delivers K-weighted power
+// in 100 ms blocks; here they become momentary (400 ms), short-term (3 s),
+// gated integrated loudness (BS.1770: -70 LUFS absolute, -10 LU relative) and
+// loudness range (EBU Tech 3342: short-term values gated at -70 LUFS and
+// -20 LU, 10th to 95th percentile). Everything since the last reset.
+
+const MOMENTARY_BLOCKS = 4;
+const SHORT_TERM_BLOCKS = 30;
+const ABSOLUTE_GATE = -70;
+const INTEGRATED_RELATIVE_GATE = -10;
+const RANGE_RELATIVE_GATE = -20;
+
+export interface LoudnessReading {
+  momentary: number | null; // LUFS
+  shortTerm: number | null;
+  integrated: number | null;
+  range: number | null; // LU
+  truePeak: number | null; // dBTP, highest since reset
+}
+
+interface LoudnessBlock {
+  power: number;
+  truePeak: number[]; // Per channel, linear
+}
+
+export const lufsOf = (power: number) => power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+const powerOf = (lufs: number) => Math.pow(10, (lufs + 0.691) / 10);
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+
+export class LoudnessMeter {
+  private node: AudioWorkletNode | null = null;
+  private blocks: number[] = []; // The last SHORT_TERM_BLOCKS block powers
+  private gatingBlocks: number[] = []; // 400 ms powers above the absolute gate
+  private shortTermValues: number[] = []; // Short-term LUFS above the absolute gate
+  private maxTruePeak = 0;
+  private cached: LoudnessReading | null = null; // Until the next block
+  private stopped = false;
+  /** Rejects if the meter couldn't start (e.g. no AudioWorklet support). */
+  readonly ready: Promise<void>;
+
+  constructor(private context: AudioContext, source: AudioNode, channelCount: 1 | 2) {
+    this.ready = this.start(source, channelCount);
+  }
+
+  private async start(source: AudioNode, channelCount: number) {
+    await this.context.audioWorklet.addModule(new URL('../workers/loudnessMeter.worklet.js', import.meta.url));
+    if (this.stopped) return;
+    this.node = new AudioWorkletNode(this.context, 'loudness-meter', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount,
+      channelCountMode: 'explicit',
+      channelInterpretation: 'discrete',
+      processorOptions: { channelCount }
+    });
+    this.node.port.onmessage = (e: MessageEvent<LoudnessBlock>) => this.add(e.data);
+    source.connect(this.node);
+  }
+
+  private add(block: LoudnessBlock) {
+    this.cached = null;
+    this.blocks.push(block.power);
+    if (this.blocks.length > SHORT_TERM_BLOCKS) this.blocks.shift();
+    this.maxTruePeak = Math.max(this.maxTruePeak, ...block.truePeak);
+
+    if (this.blocks.length >= MOMENTARY_BLOCKS) {
+      const power = mean(this.blocks.slice(-MOMENTARY_BLOCKS));
+      if (lufsOf(power) > ABSOLUTE_GATE) this.gatingBlocks.push(power);
+    }
+    if (this.blocks.length >= SHORT_TERM_BLOCKS) {
+      const shortTerm = lufsOf(mean(this.blocks));
+      if (shortTerm > ABSOLUTE_GATE) this.shortTermValues.push(shortTerm);
+    }
+  }
+
+  /** Starts integrated loudness, range and true peak over, e.g. at the start of a take. */
+  reset() {
+    this.gatingBlocks = [];
+    this.shortTermValues = [];
+    this.maxTruePeak = 0;
+    this.cached = null;
+  }
+
+  get reading(): LoudnessReading {
+    if (!this.cached) this.cached = this.measure();
+    return this.cached;
+  }
+
+  private measure(): LoudnessReading {
+    const level = (count: number) => {
+      if (this.blocks.length < count) return null;
+      const lufs = lufsOf(mean(this.blocks.slice(-count)));
+      return Number.isFinite(lufs) ? lufs : null;
+    };
+
+    let integrated: number | null = null;
+    if (this.gatingBlocks.length > 0) {
+      const threshold = lufsOf(mean(this.gatingBlocks)) + INTEGRATED_RELATIVE_GATE;
+      const gated = this.gatingBlocks.filter(p => p > powerOf(threshold));
+      if (gated.length > 0) integrated = lufsOf(mean(gated));
+    }
+
+    let range: number | null = null;
+    if (this.shortTermValues.length > 1) {
+      const threshold = lufsOf(mean(this.shortTermValues.map(powerOf))) + RANGE_RELATIVE_GATE;
+      const gated = this.shortTermValues.filter(v => v > threshold).sort((a, b) => a - b);
+      if (gated.length > 1) range = percentile(gated, 0.95) - percentile(gated, 0.1);
+    }
+
+    return {
+      momentary: level(MOMENTARY_BLOCKS),
+      shortTerm: level(SHORT_TERM_BLOCKS),
+      integrated,
+      range,
+      truePeak: this.maxTruePeak > 0 ? 20 * Math.log10(this.maxTruePeak) : null
+    };
+  }
+
+  stop() {
+    this.stopped = true;
+    this.node?.disconnect();
+  }
+}
@@ -0,0 +1,59 @@
+// LTC out of the phone's audio jack, to be fed into the camera's mic input
+// (or a recorder) so its internal files can be auto-synced in post. The
+// generator is re-anchored to the timecode clock periodically so it never
+// drifts from what the app displays and stamps.
+
+import { TimecodeSettings } from '../types';
+import { TIMECODE_RATES, timecodePositionAt } from './timecode';
+
+const RESYNC_INTERVAL_MS = 10000;
+
+export class LtcOutput {
+  private context = new AudioContext();
+  private node: AudioWorkletNode | null = null;
+  private timer = 0;
+  private stopped = false;
+  /** Rejects if the generator couldn't start. */
+  readonly ready: Promise<void>;
+
+  constructor(private settings: TimecodeSettings) {
+    this.ready = this.start();
+  }
+
+  private async start() {
+    await this.context.audioWorklet.addModule(new URL('../workers/ltcGenerator.worklet.js', import.meta.url));
+    if (this.stopped) return;
+    const { fps, nominal, dropFrame } = TIMECODE_RATES[this.settings.rate];
+    this.node = new AudioWorkletNode(this.context, 'ltc-generator', {
+      numberOfInputs: 0,
+      outputChannelCount: [2],
+      processorOptions: { fps, nominal, dropFrame, channel: this.settings.ltcChannel === 'left' ? 0 : 1 }
+    });
+    this.node.connect(this.context.destination);
+    if (this.context.state === 'suspended') await this.context.resume();
+    this.sync();
+    this.timer = window.setInterval(() => this.sync(), RESYNC_INTERVAL_MS);
+  }
+
+  // Pairs "this sample is heard now" with "this is the timecode now"
+  private sync() {
+    if (!this.node) return;
+    const nowPerf = performance.now();
+    const stamp = this.context.getOutputTimestamp?.();
+    const contextNow = stamp?.contextTime !== undefined && stamp.performanceTime !== undefined
+      ? stamp.contextTime + (nowPerf - stamp.performanceTime) / 1000
+      : this.context.currentTime;
+    const date = new Date(performance.timeOrigin + nowPerf);
+    this.node.port.postMessage({
+      position: timecodePositionAt(this.settings, date),
+      sample: Math.round(contextNow * this.context.sampleRate)
+    });
+  }
+
+  stop() {
+    this.stopped = true;
+    clearInterval(this.timer);
+    this.node?.disconnect();
+    this.context.close().catch(() => {});
+  }
+}
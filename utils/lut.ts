@@ -0,0 +1,224 @@
+// LUT library: built-in S-Log2 transforms, CPU sampling (for scopes and
+// exports) and persistence of imported .cube files.
+
+import { Lut, LutInterpolation } from '../types';
+import { lumaOf } from './frameAnalysis';
+import { idbGetAll, idbPut, idbDelete } from './storage';
+
+type RGB = [number, number, number];
+type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+// --- COLOR SCIENCE ---
+
+// Sony S-Log2 to scene linear reflectance. Input is the normalised code value
+// as the browser hands it to us (video levels already expanded to 0..1).
+const slog2ToLinear = (x: number) => {
+  const lin = x >= 0.030001222851889303
+    ? Math.pow(10, (x - 0.616596 - 0.03) / 0.432699) - 0.037584
+    : (x - 0.030001222851889303) / 5.0;
+  return lin * 0.9 * 219 / 155;
+};
+
+const rec709Oetf = (x: number) => {
+  if (x <= 0) return 0;
+  return x < 0.018 ? 4.5 * x : 1.099 * Math.pow(x, 0.45) - 0.099;
+};
+
+// Soft highlight shoulder so S-Log2's extra stops roll off instead of hard clipping
+const SHOULDER_START = 0.8;
+const shoulder = (x: number) =>
+  x <= SHOULDER_START ? x : SHOULDER_START + (1 - SHOULDER_START) * (1 - Math.exp(-(x - SHOULDER_START) / (1 - SHOULDER_START)));
+
+const multiply = (a: Matrix3, b: Matrix3): Matrix3 => {
+  const out = new Array(9).fill(0) as Matrix3;
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      for (let k = 0; k < 3; k++) out[r * 3 + c] += a[r * 3 + k] * b[k * 3 + c];
+    }
+  }
+  return out;
+};
+
+const invert = (m: Matrix3): Matrix3 => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h, B = -(d * i - f * g), C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  return [
+    A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    C / det, -(a * h - b * g) / det, (a * e - b * d) / det
+  ];
+};
+
+// RGB -> XYZ matrix from chromaticity coordinates
+const rgbToXyz = (primaries: [number, number][], white: [number, number]): Matrix3 => {
+  const toXyz = ([x, y]: [number, number]): RGB => [x / y, 1, (1 - x - y) / y];
+  const [r, g, b] = primaries.map(toXyz);
+  const p: Matrix3 = [r[0], g[0], b[0], r[1], g[1], b[1], r[2], g[2], b[2]];
+  const w = toXyz(white);
+  const inv = invert(p);
+  const s = [0, 1, 2].map(row => inv[row * 3] * w[0] + inv[row * 3 + 1] * w[1] + inv[row * 3 + 2] * w[2]);
+  return [p[0] * s[0], p[1] * s[1], p[2] * s[2], p[3] * s[0], p[4] * s[1], p[5] * s[2], p[6] * s[0], p[7] * s[1], p[8] * s[2]];
+};
+
+const D65: [number, number] = [0.3127, 0.3290];
+const S_GAMUT_TO_REC709 = multiply(
+  invert(rgbToXyz([[0.64, 0.33], [0.30, 0.60], [0.15, 0.06]], D65)),
+  rgbToXyz([[0.73, 0.28], [0.14, 0.855], [0.10, -0.05]], D65)
+);
+
+const slog2ToRec709 = (r: number, g: number, b: number): RGB => {
+  const lr = slog2ToLinear(r);
+  const lg = slog2ToLinear(g);
+  const lb = slog2ToLinear(b);
+  const m = S_GAMUT_TO_REC709;
+  return [
+    rec709Oetf(shoulder(m[0] * lr + m[1] * lg + m[2] * lb)),
+    rec709Oetf(shoulder(m[3] * lr + m[4] * lg + m[5] * lb)),
+    rec709Oetf(shoulder(m[6] * lr + m[7] * lg + m[8] * lb))
+  ];
+};
+
+const clamp01 = (x: number) => Math.max(0, Math.min(1, x));
+
+// --- BUILT-IN LUTS ---
+
+const BUILT_IN_SIZE = 33;
+
+const buildLut = (id: string, title: string, transform: (r: number, g: number, b: number) => RGB): Lut => {
+  const n = BUILT_IN_SIZE;
+  const data = new Float32Array(n * n * n * 3);
+  let i = 0;
+  for (let b = 0; b < n; b++) {
+    for (let g = 0; g < n; g++) {
+      for (let r = 0; r < n; r++) {
+        const out = transform(r / (n - 1), g / (n - 1), b / (n - 1));
+        data[i++] = clamp01(out[0]);
+        data[i++] = clamp01(out[1]);
+        data[i++] = clamp01(out[2]);
+      }
+    }
+  }
+  return { id, title, kind: '3d', size: n, domainMin: [0, 0, 0], domainMax: [1, 1, 1], data, builtIn: true };
+};
+
+export const DEFAULT_LUT_ID = 'slog2-rec709';
+
+let builtIns: Lut[] | null = null;
+
+// Creative looks are built on top of the technical conversion so they expect S-Log2 input
+export const getBuiltInLuts = (): Lut[] => {
+  if (builtIns) return builtIns;
+  builtIns = [
+    buildLut(DEFAULT_LUT_ID, 'S-Log2/S-Gamut → 709', slog2ToRec709),
+    buildLut('slog2-cinematic', 'Cinematic', (r, g, b) => {
+      return slog2ToRec709(r, g, b).map((x, c) => {
+        const curved = x + 0.35 * (x * x * (3 - 2 * x) - x); // gentle S-curve
+        return curved * [1.03, 1, 0.96][c]; // warm
+      }) as RGB;
+    }),
+    buildLut('slog2-bw', 'B&W', (r, g, b) => {
+      const y = lumaOf(...slog2ToRec709(r, g, b));
+      const curved = y + 0.5 * (y * y * (3 - 2 * y) - y);
+      return [curved, curved, curved];
+    }),
+    buildLut('slog2-teal-orange', 'Teal & Orange', (r, g, b) => {
+      const [tr, tg, tb] = slog2ToRec709(r, g, b);
+      const y = lumaOf(tr, tg, tb);
+      const sat = 1.15;
+      const split = (y - 0.45) * 0.16; // shadows to teal, highlights to orange
+      return [
+        y + (tr - y) * sat + split,
+        y + (tg - y) * sat + split * 0.15,
+        y + (tb - y) * sat - split
+      ];
+    })
+  ];
+  return builtIns;
+};
+
+export const findLut = (library: Lut[], id: string): Lut | null =>
+  id === 'none' ? null : library.find(l => l.id === id) ?? null;
+
+// --- CPU SAMPLING ---
+
+const sample1d = (lut: Lut, r: number, g: number, b: number, out: RGB) => {
+  const n = lut.size;
+  const d = lut.data;
+  [r, g, b].forEach((v, c) => {
+    const pos = clamp01(v) * (n - 1);
+    const i0 = Math.floor(pos);
+    const i1 = Math.min(n - 1, i0 + 1);
+    const f = pos - i0;
+    out[c] = d[i0 * 3 + c] * (1 - f) + d[i1 * 3 + c] * f;
+  });
+};
+
+const sample3d = (lut: Lut, r: number, g: number, b: number, interpolation: LutInterpolation, out: RGB) => {
+  const n = lut.size;
+  const d = lut.data;
+  const pr = clamp01(r) * (n - 1), pg = clamp01(g) * (n - 1), pb = clamp01(b) * (n - 1);
+  const r0 = Math.min(n - 2, Math.floor(pr)), g0 = Math.min(n - 2, Math.floor(pg)), b0 = Math.min(n - 2, Math.floor(pb));
+  const fr = pr - r0, fg = pg - g0, fb = pb - b0;
+
+  // Offset of corner (dr, dg, db) relative to the base lattice point
+  const base = ((b0 * n + g0) * n + r0) * 3;
+  const R = 3, G = n * 3, B = n * n * 3;
+
+  for (let c = 0; c < 3; c++) {
+    const c000 = d[base + c];
+    const c111 = d[base + R + G + B + c];
+
+    if (interpolation === 'tetrahedral') {
+      let v: number;
+      if (fr > fg) {
+        if (fg > fb) v = (1 - fr) * c000 + (fr - fg) * d[base + R + c] + (fg - fb) * d[base + R + G + c] + fb * c111;
+        else if (fr > fb) v = (1 - fr) * c000 + (fr - fb) * d[base + R + c] + (fb - fg) * d[base + R + B + c] + fg * c111;
+        else v = (1 - fb) * c000 + (fb - fr) * d[base + B + c] + (fr - fg) * d[base + R + B + c] + fg * c111;
+      } else {
+        if (fb > fg) v = (1 - fb) * c000 + (fb - fg) * d[base + B + c] + (fg - fr) * d[base + G + B + c] + fr * c111;
+        else if (fb > fr) v = (1 - fg) * c000 + (fg - fb) * d[base + G + c] + (fb - fr) * d[base + G + B + c] + fr * c111;
+        else v = (1 - fg) * c000 + (fg - fr) * d[base + G + c] + (fr - fb) * d[base + R + G + c] + fb * c111;
+      }
+      out[c] = v;
+    } else {
+      const c100 = d[base + R + c], c010 = d[base + G + c], c110 = d[base + R + G + c];
+      const c001 = d[base + B + c], c101 = d[base + R + B + c], c011 = d[base + G + B + c];
+      const c00 = c000 + (c100 - c000) * fr, c10 = c010 + (c110 - c010) * fr;
+      const c01 = c001 + (c101 - c001) * fr, c11 = c011 + (c111 - c011) * fr;
+      const c0 = c00 + (c10 - c00) * fg, c1 = c01 + (c11 - c01) * fg;
+      out[c] = c0 + (c1 - c0) * fb;
+    }
+  }
+};
+
+/** Looks up one 0..1 RGB value, honouring the LUT's input domain. */
+export const sampleLut = (lut: Lut, r: number, g: number, b: number, interpolation: LutInterpolation, out: RGB) => {
+  const [minR, minG, minB] = lut.domainMin;
+  const [maxR, maxG, maxB] = lut.domainMax;
+  const nr = (r - minR) / (maxR - minR);
+  const ng = (g - minG) / (maxG - minG);
+  const nb = (b - minB) / (maxB - minB);
+  if (lut.kind === '1d') sample1d(lut, nr, ng, nb, out);
+  else sample3d(lut, nr, ng, nb, interpolation, out);
+};
+
+/** Grades an (analysis-sized) frame in place. */
+export const applyLutToImageData = (frame: ImageData, lut: Lut, interpolation: LutInterpolation) => {
+  const data = frame.data;
+  const out: RGB = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    sampleLut(lut, data[i] / 255, data[i + 1] / 255, data[i + 2] / 255, interpolation, out);
+    data[i] = Math.round(clamp01(out[0]) * 255);
+    data[i + 1] = Math.round(clamp01(out[1]) * 255);
+    data[i + 2] = Math.round(clamp01(out[2]) * 255);
+  }
+};
+
+// --- PERSISTENCE (imported .cube files) ---
+
+const LUT_STORE = 'luts';
+
+export const loadUserLuts = () => idbGetAll<Lut>(LUT_STORE);
+export const saveUserLut = (lut: Lut) => idbPut(LUT_STORE, lut);
+export const deleteUserLut = (id: string) => idbDelete(LUT_STORE, id);
@@ -0,0 +1,200 @@
+// WebGL2 renderer that grades a video (or canvas) through a 1D/3D LUT at full
+// resolution. Trilinear uses the GPU's 3D texture filtering, tetrahedral is
+// done by hand in the shader from the four lattice points of the tetrahedron.
+
+import { Lut, LutInterpolation } from '../types';
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 aPosition;
+out vec2 vUv;
+void main() {
+  vUv = aPosition * 0.5 + 0.5;
+  gl_Position = vec4(aPosition, 0.0, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+in vec2 vUv;
+uniform sampler2D uSource;
+uniform sampler3D uLut3d;
+uniform sampler2D uLut1d;
+uniform int uMode; // 0 = bypass, 1 = 1D, 2 = 3D trilinear, 3 = 3D tetrahedral
+uniform float uSize;
+uniform vec3 uDomainMin;
+uniform vec3 uDomainMax;
+out vec4 outColor;
+
+vec3 lattice(ivec3 p) { return texelFetch(uLut3d, p, 0).rgb; }
+
+vec3 tetrahedral(vec3 c) {
+  vec3 p = c * (uSize - 1.0);
+  vec3 base = min(floor(p), vec3(uSize - 2.0));
+  vec3 f = p - base;
+  ivec3 b = ivec3(base);
+  vec3 c000 = lattice(b);
+  vec3 c111 = lattice(b + ivec3(1));
+  if (f.r > f.g) {
+    if (f.g > f.b) return (1.0 - f.r) * c000 + (f.r - f.g) * lattice(b + ivec3(1, 0, 0)) + (f.g - f.b) * lattice(b + ivec3(1, 1, 0)) + f.b * c111;
+    if (f.r > f.b) return (1.0 - f.r) * c000 + (f.r - f.b) * lattice(b + ivec3(1, 0, 0)) + (f.b - f.g) * lattice(b + ivec3(1, 0, 1)) + f.g * c111;
+    return (1.0 - f.b) * c000 + (f.b - f.r) * lattice(b + ivec3(0, 0, 1)) + (f.r - f.g) * lattice(b + ivec3(1, 0, 1)) + f.g * c111;
+  }
+  if (f.b > f.g) return (1.0 - f.b) * c000 + (f.b - f.g) * lattice(b + ivec3(0, 0, 1)) + (f.g - f.r) * lattice(b + ivec3(0, 1, 1)) + f.r * c111;
+  if (f.b > f.r) return (1.0 - f.g) * c000 + (f.g - f.b) * lattice(b + ivec3(0, 1, 0)) + (f.b - f.r) * lattice(b + ivec3(0, 1, 1)) + f.r * c111;
+  return (1.0 - f.g) * c000 + (f.g - f.r) * lattice(b + ivec3(0, 1, 0)) + (f.r - f.b) * lattice(b + ivec3(1, 1, 0)) + f.b * c111;
+}
+
+void main() {
+  vec4 src = texture(uSource, vUv);
+  vec3 c = clamp((src.rgb - uDomainMin) / (uDomainMax - uDomainMin), 0.0, 1.0);
+  vec3 graded = src.rgb;
+  vec3 coord = (c * (uSize - 1.0) + 0.5) / uSize;
+
+  if (uMode == 1) {
+    graded = vec3(texture(uLut1d, vec2(coord.r, 0.5)).r, texture(uLut1d, vec2(coord.g, 0.5)).g, texture(uLut1d, vec2(coord.b, 0.5)).b);
+  } else if (uMode == 2) {
+    graded = texture(uLut3d, coord).rgb;
+  } else if (uMode == 3) {
+    graded = tetrahedral(c);
+  }
+  // Canvas is premultiplied; keep the source alpha so keyed frames stay transparent
+  outColor = vec4(clamp(graded, 0.0, 1.0) * src.a, src.a);
+}`;
+
+const MAX_1D_TEXTURE = 4096;
+
+const compile = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(`LUT shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+  }
+  return shader;
+};
+
+// Very long 1D LUTs are linearly resampled to fit in a texture row
+const resample1d = (lut: Lut) => {
+  if (lut.size <= MAX_1D_TEXTURE) return { size: lut.size, data: lut.data };
+  const data = new Float32Array(MAX_1D_TEXTURE * 3);
+  for (let i = 0; i < MAX_1D_TEXTURE; i++) {
+    const pos = i / (MAX_1D_TEXTURE - 1) * (lut.size - 1);
+    const i0 = Math.floor(pos);
+    const i1 = Math.min(lut.size - 1, i0 + 1);
+    const f = pos - i0;
+    for (let c = 0; c < 3; c++) data[i * 3 + c] = lut.data[i0 * 3 + c] * (1 - f) + lut.data[i1 * 3 + c] * f;
+  }
+  return { size: MAX_1D_TEXTURE, data };
+};
+
+export class LutRenderer {
+  private gl: WebGL2RenderingContext;
+  private program: WebGLProgram;
+  private sourceTexture: WebGLTexture;
+  private lut3dTexture: WebGLTexture;
+  private lut1dTexture: WebGLTexture;
+  private mode = 0;
+  private size = 2;
+  private domainMin: [number, number, number] = [0, 0, 0];
+  private domainMax: [number, number, number] = [1, 1, 1];
+
+  constructor(canvas: HTMLCanvasElement) {
+    // preserveDrawingBuffer so other components can read the graded frame back
+    const gl = canvas.getContext('webgl2', { premultipliedAlpha: true, preserveDrawingBuffer: true });
+    if (!gl) throw new Error('WebGL2 is not available on this device');
+    this.gl = gl;
+
+    const program = gl.createProgram()!;
+    gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      throw new Error(`LUT shader failed to link: ${gl.getProgramInfoLog(program)}`);
+    }
+    this.program = program;
+    gl.useProgram(program);
+
+    // Fullscreen quad
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'aPosition');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    const makeTexture = (target: number, unit: number, uniform: string) => {
+      const texture = gl.createTexture()!;
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(target, texture);
+      gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+      gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      if (target === gl.TEXTURE_3D) gl.texParameteri(target, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+      gl.uniform1i(gl.getUniformLocation(program, uniform), unit);
+      return texture;
+    };
+    this.sourceTexture = makeTexture(gl.TEXTURE_2D, 0, 'uSource');
+    this.lut3dTexture = makeTexture(gl.TEXTURE_3D, 1, 'uLut3d');
+    this.lut1dTexture = makeTexture(gl.TEXTURE_2D, 2, 'uLut1d');
+
+    // Placeholders so every sampler is complete even in bypass mode
+    gl.activeTexture(gl.TEXTURE1);
+    gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB16F, 2, 2, 2, 0, gl.RGB, gl.FLOAT, new Float32Array(24));
+    gl.activeTexture(gl.TEXTURE2);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGB16F, 2, 1, 0, gl.RGB, gl.FLOAT, new Float32Array(6));
+  }
+
+  setLut(lut: Lut | null, interpolation: LutInterpolation) {
+    const gl = this.gl;
+    if (!lut) {
+      this.mode = 0;
+      return;
+    }
+
+    if (lut.kind === '3d') {
+      gl.activeTexture(gl.TEXTURE1);
+      gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB16F, lut.size, lut.size, lut.size, 0, gl.RGB, gl.FLOAT, lut.data);
+      this.size = lut.size;
+      this.mode = interpolation === 'tetrahedral' ? 3 : 2;
+    } else {
+      const { size, data } = resample1d(lut);
+      gl.activeTexture(gl.TEXTURE2);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGB16F, size, 1, 0, gl.RGB, gl.FLOAT, data);
+      this.size = size;
+      this.mode = 1;
+    }
+    this.domainMin = lut.domainMin;
+    this.domainMax = lut.domainMax;
+  }
+
+  render(source: TexImageSource, width: number, height: number) {
+    const gl = this.gl;
+    const canvas = gl.canvas as HTMLCanvasElement;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    gl.viewport(0, 0, width, height);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+
+    gl.uniform1i(gl.getUniformLocation(this.program, 'uMode'), this.mode);
+    gl.uniform1f(gl.getUniformLocation(this.program, 'uSize'), this.size);
+    gl.uniform3fv(gl.getUniformLocation(this.program, 'uDomainMin'), this.domainMin);
+    gl.uniform3fv(gl.getUniformLocation(this.program, 'uDomainMax'), this.domainMax);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  dispose() {
+    const gl = this.gl;
+    gl.deleteTexture(this.sourceTexture);
+    gl.deleteTexture(this.lut3dTexture);
+    gl.deleteTexture(this.lut1dTexture);
+    gl.deleteProgram(this.program);
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+}
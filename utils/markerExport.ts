@@ -0,0 +1,217 @@
+// Take markers as files editing tools import: a spreadsheet-friendly CSV, a
+// CMX3600 EDL with Avid locators, FCPXML, and a DaVinci Resolve marker EDL.
+// The takes are laid end to end on a timeline from 01:00:00:00 (like an
+// assembly of the selects); source timecode is each file's start timecode.
+// A browser can't tell where the downloads end up, so FCPXML points at the
+// phone's Download folder and the editor relinks the media once it's copied.
+
+import { LibraryTake, MarkerColor, TimecodeRate } from '../types';
+import { TIMECODE_RATES, framesToTimecode, timecodeToFrames } from './timecode';
+import { MARKER_SOURCE_LABELS } from './markers';
+import { downloadBlob } from './download';
+
+export type MarkerExportFormat = 'csv' | 'edl' | 'fcpxml' | 'resolve';
+
+export const MARKER_EXPORT_FORMATS: Record<MarkerExportFormat, { label: string; suffix: string; mimeType: string }> = {
+  csv: { label: 'CSV', suffix: '_markers.csv', mimeType: 'text/csv' },
+  edl: { label: 'EDL', suffix: '_markers.edl', mimeType: 'text/plain' },
+  fcpxml: { label: 'FCPXML', suffix: '_markers.fcpxml', mimeType: 'application/xml' },
+  resolve: { label: 'RESOLVE', suffix: '_markers_resolve.edl', mimeType: 'text/plain' }
+};
+
+const DEFAULT_RATE: TimecodeRate = '25';
+const TIMELINE_START = '01:00:00:00';
+const MEDIA_FOLDER_URL = 'file:///storage/emulated/0/Download/';
+// Takes stored before frame sizes were kept
+const DEFAULT_FRAME_SIZE = { width: 1920, height: 1080 };
+
+const AVID_COLORS: Record<MarkerColor, string> = {
+  red: 'RED',
+  yellow: 'YELLOW',
+  green: 'GREEN',
+  cyan: 'CYAN',
+  blue: 'BLUE',
+  purple: 'MAGENTA'
+};
+
+const RESOLVE_COLORS: Record<MarkerColor, string> = {
+  red: 'ResolveColorRed',
+  yellow: 'ResolveColorYellow',
+  green: 'ResolveColorGreen',
+  cyan: 'ResolveColorCyan',
+  blue: 'ResolveColorBlue',
+  purple: 'ResolveColorPurple'
+};
+
+// Positions in frames at the export rate
+export interface TimelineClip {
+  take: LibraryTake;
+  sourceIn: number;
+  length: number;
+  recordIn: number;
+}
+
+/** The rate of the first take that has one; takes without timecode start at 00:00:00:00. */
+export const exportRateFor = (takes: LibraryTake[]): TimecodeRate =>
+  takes.find(t => t.timecodeRate)?.timecodeRate ?? DEFAULT_RATE;
+
+const sourceStartFrames = (take: LibraryTake, rate: TimecodeRate) => {
+  if (!take.timecode || !take.timecodeRate) return 0;
+  const frames = timecodeToFrames(take.timecode, take.timecodeRate);
+  if (frames === null) return 0;
+  return Math.round(frames / TIMECODE_RATES[take.timecodeRate].fps * TIMECODE_RATES[rate].fps);
+};
+
+/** Takes in the given order, back to back from 01:00:00:00. */
+export const layoutTimeline = (takes: LibraryTake[], rate: TimecodeRate): TimelineClip[] => {
+  const { fps } = TIMECODE_RATES[rate];
+  let recordIn = timecodeToFrames(TIMELINE_START, rate)!;
+  return takes.map(take => {
+    const length = Math.max(1, Math.round(take.duration * fps));
+    const clip = { take, sourceIn: sourceStartFrames(take, rate), length, recordIn };
+    recordIn += length;
+    return clip;
+  });
+};
+
+const markerFrames = (clip: TimelineClip, time: number, rate: TimecodeRate) =>
+  Math.min(clip.length - 1, Math.round(time * TIMECODE_RATES[rate].fps));
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, ch => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[ch]!));
+
+// EDL comment lines are single-line
+export const oneLine = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const baseName = (filename: string) => filename.replace(/\.[^.]+$/, '');
+
+export const edlHeader = (title: string, rate: TimecodeRate) =>
+  `TITLE: ${oneLine(title)}\r\nFCM: ${TIMECODE_RATES[rate].dropFrame ? 'DROP FRAME' : 'NON-DROP FRAME'}\r\n\r\n`;
+
+export const edlEvent = (event: number, clip: TimelineClip, rate: TimecodeRate) => {
+  const tc = (frames: number) => framesToTimecode(frames, rate);
+  const track = clip.take.kind === 'video' ? 'B' : 'A';
+  return `${String(event).padStart(3, '0')}  AX       ${track.padEnd(5)} C        ` +
+    `${tc(clip.sourceIn)} ${tc(clip.sourceIn + clip.length)} ${tc(clip.recordIn)} ${tc(clip.recordIn + clip.length)}\r\n` +
+    `* FROM CLIP NAME: ${clip.take.filename}\r\n`;
+};
+
+/** FCPXML rational time for a frame count, e.g. "1001/30000s" per frame at 29.97. */
+export const fcpxmlTime = (frames: number, rate: TimecodeRate) => {
+  const [num, den] = TIMECODE_RATES[rate].ratio.split('/');
+  return frames === 0 ? '0s' : `${frames * Number(den)}/${num}s`;
+};
+
+/** Absolute file URL of a take in the Download folder, for the editor to relink from. */
+export const fcpxmlMediaSrc = (filename: string) => MEDIA_FOLDER_URL + encodeURIComponent(filename);
+
+/** One <format> per frame size of the video takes, r0 first (the sequence's); audio takes use r0. */
+export const fcpxmlFormats = (clips: TimelineClip[], rate: TimecodeRate) => {
+  const [num, den] = TIMECODE_RATES[rate].ratio.split('/');
+  const sizes: { width: number; height: number }[] = [];
+  const indexOf = (size: { width: number; height: number }) => {
+    const index = sizes.findIndex(s => s.width === size.width && s.height === size.height);
+    return index >= 0 ? index : sizes.push(size) - 1;
+  };
+  const ids = clips.map(clip => clip.take.kind === 'video' ? `r${indexOf(clip.take.frameSize ?? DEFAULT_FRAME_SIZE)}` : null);
+  if (sizes.length === 0) sizes.push(DEFAULT_FRAME_SIZE);
+  const xml = sizes.map(({ width, height }, i) =>
+    `    <format id="r${i}" frameDuration="${den}/${num}s" width="${width}" height="${height}"/>`
+  ).join('\n');
+  return { xml, formatOf: (i: number) => ids[i] ?? 'r0' };
+};
+
+const buildCsv = (clips: TimelineClip[], rate: TimecodeRate) => {
+  const rows = [['File', 'Shot', 'Take', 'Timecode', 'Seconds', 'Color', 'Type', 'Note']];
+  clips.forEach(clip => {
+    clip.take.markers.forEach(marker => rows.push([
+      clip.take.filename,
+      clip.take.shotName ?? '',
+      clip.take.take !== null ? String(clip.take.take) : '',
+      framesToTimecode(clip.sourceIn + markerFrames(clip, marker.time, rate), rate),
+      marker.time.toFixed(2),
+      marker.color,
+      MARKER_SOURCE_LABELS[marker.source],
+      marker.note
+    ]));
+  });
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+/** A clip's markers as Avid-style locators on the record side. */
+export const edlLocators = (clip: TimelineClip, rate: TimecodeRate) =>
+  clip.take.markers.map(marker => {
+    const at = framesToTimecode(clip.recordIn + markerFrames(clip, marker.time, rate), rate);
+    return `* LOC: ${at} ${AVID_COLORS[marker.color].padEnd(7)} ${oneLine(marker.note || MARKER_SOURCE_LABELS[marker.source])}\r\n`;
+  }).join('');
+
+/** A clip's markers as FCPXML <marker> lines, in source time. */
+export const fcpxmlMarkers = (clip: TimelineClip, rate: TimecodeRate, indent: string) =>
+  clip.take.markers.map(marker =>
+    `${indent}<marker start="${fcpxmlTime(clip.sourceIn + markerFrames(clip, marker.time, rate), rate)}" duration="${fcpxmlTime(1, rate)}" ` +
+    `value="${escapeXml(marker.note || MARKER_SOURCE_LABELS[marker.source])}" note="${marker.color}"/>`
+  ).join('\n');
+
+// One event per take with its locators
+const buildEdl = (clips: TimelineClip[], rate: TimecodeRate, title: string) =>
+  edlHeader(title, rate) + clips.map((clip, i) => edlEvent(i + 1, clip, rate) + edlLocators(clip, rate)).join('\r\n');
+
+// Resolve's "Timeline Markers from EDL": one single-frame event per marker
+const buildResolve = (clips: TimelineClip[], rate: TimecodeRate, title: string) => {
+  let event = 0;
+  const events = clips.flatMap(clip => clip.take.markers.map(marker => {
+    const at = clip.recordIn + markerFrames(clip, marker.time, rate);
+    const inTc = framesToTimecode(at, rate);
+    const outTc = framesToTimecode(at + 1, rate);
+    const name = oneLine(marker.note || `${MARKER_SOURCE_LABELS[marker.source]} ${clip.take.filename}`);
+    event++;
+    return `${String(event).padStart(3, '0')}  001      V     C        ${inTc} ${outTc} ${inTc} ${outTc}  \r\n` +
+      ` |C:${RESOLVE_COLORS[marker.color]} |M:${name} |D:1\r\n`;
+  }));
+  return edlHeader(title, rate) + events.join('\r\n');
+};
+
+const buildFcpxml = (clips: TimelineClip[], rate: TimecodeRate, title: string) => {
+  const t = (frames: number) => fcpxmlTime(frames, rate);
+  const formats = fcpxmlFormats(clips, rate);
+  const tcFormat = TIMECODE_RATES[rate].dropFrame ? 'DF' : 'NDF';
+  const start = clips[0]?.recordIn ?? timecodeToFrames(TIMELINE_START, rate)!;
+  const total = clips.reduce((sum, clip) => sum + clip.length, 0);
+
+  const assets = clips.map((clip, i) =>
+    `    <asset id="a${i + 1}" name="${escapeXml(baseName(clip.take.filename))}" src="${escapeXml(fcpxmlMediaSrc(clip.take.filename))}" ` +
+    `start="${t(clip.sourceIn)}" duration="${t(clip.length)}" hasVideo="${clip.take.kind === 'video' ? 1 : 0}" hasAudio="1" format="${formats.formatOf(i)}"/>`
+  ).join('\n');
+  const spine = clips.map((clip, i) => {
+    const markers = fcpxmlMarkers(clip, rate, '              ');
+    return `            <asset-clip ref="a${i + 1}" name="${escapeXml(baseName(clip.take.filename))}" offset="${t(clip.recordIn)}" ` +
+      `start="${t(clip.sourceIn)}" duration="${t(clip.length)}" tcFormat="${tcFormat}">` +
+      (markers ? `\n${markers}\n            ` : '') + '</asset-clip>';
+  }).join('\n');
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE fcpxml>\n<fcpxml version="1.8">\n' +
+    `  <resources>\n${formats.xml}\n${assets}\n  </resources>\n` +
+    `  <library>\n    <event name="${escapeXml(title)}">\n      <project name="${escapeXml(title)} Markers">\n` +
+    `        <sequence format="r0" tcStart="${t(start)}" tcFormat="${tcFormat}" duration="${t(total)}">\n          <spine>\n` +
+    `${spine}\n          </spine>\n        </sequence>\n      </project>\n    </event>\n  </library>\n</fcpxml>\n`;
+};
+
+export const buildMarkerFile = (takes: LibraryTake[], format: MarkerExportFormat, title: string) => {
+  const rate = exportRateFor(takes);
+  const clips = layoutTimeline([...takes].sort((a, b) => a.createdAt - b.createdAt), rate);
+  if (format === 'csv') return buildCsv(clips, rate);
+  if (format === 'edl') return buildEdl(clips, rate, title);
+  if (format === 'resolve') return buildResolve(clips, rate, title);
+  return buildFcpxml(clips, rate, title);
+};
+
+export const exportMarkers = (takes: LibraryTake[], format: MarkerExportFormat, title: string) => {
+  const { suffix, mimeType } = MARKER_EXPORT_FORMATS[format];
+  const text = buildMarkerFile(takes, format, title);
+  downloadBlob(new Blob([text], { type: mimeType }), `${title.replace(/\s+/g, '_')}${suffix}`);
+};
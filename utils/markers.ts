@@ -0,0 +1,46 @@
+// Markers dropped during a take. They are stamped with wall-clock time and only
+// turned into file offsets when a file is stored, so every file of the take
+// (segments, clean copy, WAV sidecar) gets exactly the ones that fall inside it.
+
+import { MarkerColor, MarkerSource, TakeMarker } from '../types';
+
+export const MARKER_COLORS: Record<MarkerColor, string> = {
+  red: '#ef4444',
+  yellow: '#eab308',
+  green: '#22c55e',
+  cyan: '#06b6d4',
+  blue: '#3b82f6',
+  purple: '#a855f7'
+};
+
+export const MARKER_SOURCE_LABELS: Record<MarkerSource, string> = {
+  manual: 'MARK',
+  clipping: 'CLIP',
+  snap: 'SNAP',
+  signal: 'SIG'
+};
+
+// Automatic markers use fixed colors so they stand apart from the director's
+export const AUTO_MARKER_COLORS: Record<Exclude<MarkerSource, 'manual'>, MarkerColor> = {
+  clipping: 'red',
+  snap: 'purple',
+  signal: 'yellow' // Video signal lost, frozen or back; the audio runs on
+};
+
+export interface LiveMarker extends Omit<TakeMarker, 'time'> {
+  at: number; // Epoch ms
+}
+
+export const createLiveMarker = (source: MarkerSource, color: MarkerColor, note = ''): LiveMarker => ({
+  id: `mk-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  at: Date.now(),
+  color,
+  note: note.trim(),
+  source
+});
+
+/** Markers inside a file that started at `startedAt` (epoch ms) and runs `duration` seconds. */
+export const markersInFile = (markers: LiveMarker[], startedAt: number, duration: number): TakeMarker[] =>
+  markers
+    .filter(m => m.at >= startedAt && m.at <= startedAt + duration * 1000)
+    .map(({ at, ...marker }) => ({ ...marker, time: (at - startedAt) / 1000 }));
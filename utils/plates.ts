@@ -0,0 +1,25 @@
+// Background plate media (images/videos picked from the device) kept in
+// IndexedDB so they are available offline on set.
+
+import { idbDelete, idbGet, idbPut } from './storage';
+
+interface PlateMedia {
+  id: string;
+  name: string;
+  blob: Blob;
+}
+
+const PLATE_STORE = 'plates';
+
+export const savePlateMedia = async (file: File): Promise<string> => {
+  const id = `plate-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  await idbPut<PlateMedia>(PLATE_STORE, { id, name: file.name, blob: file });
+  return id;
+};
+
+export const loadPlateMedia = async (id: string): Promise<Blob | null> => {
+  const media = await idbGet<PlateMedia>(PLATE_STORE, id);
+  return media ? media.blob : null;
+};
+
+export const deletePlateMedia = (id: string) => idbDelete(PLATE_STORE, id);
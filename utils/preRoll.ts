@@ -0,0 +1,68 @@
+// Rolling pre-roll for takes. A WebM/MP4 file can't be cut at an arbitrary
+// chunk without remuxing (only the first chunk carries the header and the next
+// keyframe may be far away), so instead two recorders run staggered by the
+// pre-roll length, each restarted after twice that. When REC is pressed the
+// older one is promoted to be the take's recorder: its file already holds
+// between `seconds` and 2 x `seconds` of what happened before the button.
+
+interface PreRollSlot {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+}
+
+export interface PreRollTake extends PreRollSlot {
+  preRollSeconds: number;
+}
+
+export class PreRollBuffer {
+  private slots: PreRollSlot[] = [];
+  private timer: number;
+
+  constructor(private stream: MediaStream, private options: MediaRecorderOptions, private seconds: number) {
+    this.startSlot();
+    this.timer = window.setInterval(() => this.cycle(), seconds * 1000);
+  }
+
+  /** Hands over the oldest running recorder and shuts the rest of the buffer down. */
+  take(): PreRollTake | null {
+    clearInterval(this.timer);
+    const [oldest, ...rest] = this.slots;
+    rest.forEach(slot => this.discard(slot));
+    this.slots = [];
+    if (!oldest || oldest.recorder.state === 'inactive') return null;
+    return { ...oldest, preRollSeconds: (Date.now() - oldest.startedAt) / 1000 };
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.slots.forEach(slot => this.discard(slot));
+    this.slots = [];
+  }
+
+  private cycle() {
+    // Keep at most two: the one that just reached 2 x seconds is dropped
+    if (this.slots.length >= 2) this.discard(this.slots.shift()!);
+    this.startSlot();
+  }
+
+  private startSlot() {
+    try {
+      const recorder = new MediaRecorder(this.stream, this.options);
+      const slot: PreRollSlot = { recorder, chunks: [], startedAt: Date.now() };
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) slot.chunks.push(e.data);
+      };
+      recorder.start(1000);
+      this.slots.push(slot);
+    } catch (err) {
+      console.error("Pre-roll recorder failed to start:", err);
+    }
+  }
+
+  private discard(slot: PreRollSlot) {
+    slot.recorder.ondataavailable = null;
+    if (slot.recorder.state !== 'inactive') slot.recorder.stop();
+    slot.chunks.length = 0;
+  }
+}
@@ -0,0 +1,44 @@
+// Per-project settings. A project is just a name; small settings live in
+// localStorage under a key scoped to it, large media goes to IndexedDB.
+
+const PROJECT_KEY = 'a6000.project';
+const DEFAULT_PROJECT = 'Untitled Project';
+
+export const loadProjectName = (): string => localStorage.getItem(PROJECT_KEY) || DEFAULT_PROJECT;
+
+export const saveProjectName = (name: string) => localStorage.setItem(PROJECT_KEY, name);
+
+const settingKey = (project: string, key: string) => `a6000.${project}.${key}`;
+
+export const loadProjectSetting = <T extends object>(project: string, key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(settingKey(project, key));
+    return raw ? { ...fallback, ...JSON.parse(raw) } : fallback;
+  } catch (e) {
+    console.warn(`Could not read ${key} for ${project}`, e);
+    return fallback;
+  }
+};
+
+/** The setting as saved by every project, e.g. to see which plates are still in use. */
+export const loadAllProjectSettings = <T>(key: string): T[] => {
+  const values: T[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const storageKey = localStorage.key(i);
+    if (!storageKey?.startsWith('a6000.') || !storageKey.endsWith(`.${key}`)) continue;
+    try {
+      values.push(JSON.parse(localStorage.getItem(storageKey) || 'null'));
+    } catch (e) {
+      console.warn(`Could not read ${storageKey}`, e);
+    }
+  }
+  return values.filter(Boolean);
+};
+
+export const saveProjectSetting = <T>(project: string, key: string, value: T) => {
+  try {
+    localStorage.setItem(settingKey(project, key), JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Could not save ${key} for ${project}`, e);
+  }
+};
@@ -0,0 +1,166 @@
+// Container / codec / bitrate choice for MediaRecorder. Support differs wildly
+// between devices (and MediaRecorder silently ignores what it can't do), so
+// every combination is probed with isTypeSupported and only real ones are offered.
+
+import { RecordingContainer, RecordingFormat, RecordingVideoCodec } from '../types';
+
+// Codec strings to try, most specific first
+const VIDEO_CODEC_STRINGS: Record<RecordingContainer, Record<RecordingVideoCodec, string[]>> = {
+  webm: {
+    vp9: ['vp9', 'vp09.00.10.08'],
+    vp8: ['vp8'],
+    h264: ['h264', 'avc1'],
+    av1: ['av1', 'av01.0.04M.08']
+  },
+  mp4: {
+    vp9: ['vp09.00.10.08', 'vp9'],
+    vp8: [],
+    h264: ['avc1.640028', 'avc1.42E01E', 'avc1'],
+    av1: ['av01.0.04M.08', 'av1']
+  }
+};
+
+const AUDIO_CODEC_STRINGS: Record<RecordingContainer, string[]> = {
+  webm: ['opus'],
+  mp4: ['mp4a.40.2', 'opus']
+};
+
+export const VIDEO_CODEC_LABELS: Record<RecordingVideoCodec, string> = {
+  vp9: 'VP9',
+  vp8: 'VP8',
+  h264: 'H.264',
+  av1: 'AV1'
+};
+
+export interface SupportedFormat {
+  container: RecordingContainer;
+  videoCodec: RecordingVideoCodec;
+  mimeType: string;
+}
+
+export const DEFAULT_RECORDING_FORMAT: RecordingFormat = {
+  includeVideo: true,
+  container: 'webm',
+  videoCodec: 'vp9',
+  videoBitrate: 0,
+  audioBitrate: 0,
+  audioChannels: 2
+};
+
+// What the app used before formats were configurable: first type the browser takes
+const fallbackMimeType = () => {
+  const types = [
+    'video/webm;codecs=vp9,opus',
+    'video/webm;codecs=vp8,opus',
+    'video/webm',
+    'video/mp4'
+  ];
+  return types.find(type => MediaRecorder.isTypeSupported(type)) || '';
+};
+
+const resolveMimeType = (container: RecordingContainer, videoCodec: RecordingVideoCodec) => {
+  for (const video of VIDEO_CODEC_STRINGS[container][videoCodec]) {
+    for (const audio of AUDIO_CODEC_STRINGS[container]) {
+      const type = `video/${container};codecs=${video},${audio}`;
+      if (MediaRecorder.isTypeSupported(type)) return type;
+    }
+  }
+  return null;
+};
+
+/** Every container/codec pair this device can actually record. */
+export const listSupportedFormats = (): SupportedFormat[] => {
+  const formats: SupportedFormat[] = [];
+  for (const container of Object.keys(VIDEO_CODEC_STRINGS) as RecordingContainer[]) {
+    for (const videoCodec of Object.keys(VIDEO_CODEC_STRINGS[container]) as RecordingVideoCodec[]) {
+      const mimeType = resolveMimeType(container, videoCodec);
+      if (mimeType) formats.push({ container, videoCodec, mimeType });
+    }
+  }
+  return formats;
+};
+
+/** Recorder options for `format`, falling back to the default type if the device lost support. */
+export const buildRecorderOptions = (format: RecordingFormat): MediaRecorderOptions => {
+  const mimeType = resolveMimeType(format.container, format.videoCodec) || fallbackMimeType();
+  const options: MediaRecorderOptions = {};
+  if (mimeType) options.mimeType = mimeType;
+  if (format.videoBitrate) options.videoBitsPerSecond = format.videoBitrate;
+  if (format.audioBitrate) options.audioBitsPerSecond = format.audioBitrate;
+  return options;
+};
+
+export const extensionForMimeType = (mimeType: string) => (mimeType.includes('mp4') ? 'mp4' : 'webm');
+
+export interface RecordingPreset {
+  id: string;
+  label: string;
+  description: string;
+  // Preferred pairs, best first; the first one the device supports wins
+  preferred: [RecordingContainer, RecordingVideoCodec][];
+  format: Omit<RecordingFormat, 'container' | 'videoCodec'>;
+}
+
+export const RECORDING_PRESETS: RecordingPreset[] = [
+  {
+    id: 'max',
+    label: 'Max quality',
+    description: 'Master files: high bitrate, stereo',
+    preferred: [['mp4', 'h264'], ['webm', 'vp9'], ['webm', 'h264'], ['webm', 'vp8']],
+    format: { includeVideo: true, videoBitrate: 25_000_000, audioBitrate: 256_000, audioChannels: 2 }
+  },
+  {
+    id: 'proxy',
+    label: 'Proxy',
+    description: 'Small review/editing copies',
+    preferred: [['mp4', 'h264'], ['webm', 'h264'], ['webm', 'vp8'], ['webm', 'vp9']],
+    format: { includeVideo: true, videoBitrate: 2_500_000, audioBitrate: 96_000, audioChannels: 2 }
+  },
+  {
+    id: 'audio',
+    label: 'Audio only',
+    description: 'Uncompressed WAV, no video file',
+    preferred: [],
+    format: { includeVideo: false, videoBitrate: 0, audioBitrate: 0, audioChannels: 2 }
+  }
+];
+
+export const applyPreset = (preset: RecordingPreset, current: RecordingFormat, supported: SupportedFormat[]): RecordingFormat => {
+  const pair = preset.preferred.find(([container, codec]) =>
+    supported.some(f => f.container === container && f.videoCodec === codec)
+  );
+  return {
+    ...current,
+    ...preset.format,
+    ...(pair ? { container: pair[0], videoCodec: pair[1] } : {})
+  };
+};
+
+export interface FormatTestResult {
+  mimeType: string;
+  seconds: number;
+  bytes: number;
+  bitrate: number; // bits/s actually achieved
+}
+
+/** Records `seconds` of `stream` with `options` and measures what came out. */
+export const testRecordingFormat = (stream: MediaStream, options: MediaRecorderOptions, seconds: number) =>
+  new Promise<FormatTestResult>((resolve, reject) => {
+    const recorder = new MediaRecorder(stream, options);
+    const chunks: Blob[] = [];
+    let startedAt = 0;
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onerror = (event) => reject(new Error(`Test recording failed: ${event.type}`));
+    recorder.onstart = () => {
+      startedAt = performance.now();
+    };
+    recorder.onstop = () => {
+      const elapsed = (performance.now() - startedAt) / 1000;
+      const bytes = chunks.reduce((sum, c) => sum + c.size, 0);
+      resolve({ mimeType: recorder.mimeType || options.mimeType || '', seconds: elapsed, bytes, bitrate: bytes * 8 / elapsed });
+    };
+    recorder.start();
+    window.setTimeout(() => recorder.stop(), seconds * 1000);
+  });
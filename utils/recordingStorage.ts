@@ -0,0 +1,54 @@
+// Free space and remaining record time. Chunks are persisted to IndexedDB while
+// recording (see takeRecovery), so the origin's storage quota is what runs out
+// first; the remaining time is that space divided by the measured bitrate.
+
+export type StorageLevel = 'ok' | 'low' | 'critical';
+
+export interface StorageStatus {
+  available: number | null; // Bytes, null when the browser doesn't tell
+  bitrate: number | null; // Bits per second of the current (or last) take
+  remainingSeconds: number | null;
+  level: StorageLevel;
+}
+
+// Warn below these many seconds of record time left
+export const STORAGE_WARNING_SECONDS: Record<Exclude<StorageLevel, 'ok'>, number> = {
+  low: 10 * 60,
+  critical: 2 * 60
+};
+
+export const readStorageStatus = async (bitrate: number | null): Promise<StorageStatus> => {
+  let available: number | null = null;
+  if (navigator.storage?.estimate) {
+    const { usage = 0, quota } = await navigator.storage.estimate();
+    if (quota !== undefined) available = Math.max(0, quota - usage);
+  }
+
+  const remainingSeconds = available !== null && bitrate ? available * 8 / bitrate : null;
+  let level: StorageLevel = 'ok';
+  if (remainingSeconds !== null) {
+    if (remainingSeconds < STORAGE_WARNING_SECONDS.critical) level = 'critical';
+    else if (remainingSeconds < STORAGE_WARNING_SECONDS.low) level = 'low';
+  }
+  return { available, bitrate, remainingSeconds, level };
+};
+
+// Ask the browser not to evict our data under storage pressure (best effort)
+export const requestPersistentStorage = async () => {
+  if (!navigator.storage?.persist) return false;
+  return (await navigator.storage.persisted()) || navigator.storage.persist();
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1e9) return `${(bytes / 1e9).toFixed(1)} GB`;
+  if (bytes >= 1e6) return `${Math.round(bytes / 1e6)} MB`;
+  return `${Math.round(bytes / 1e3)} KB`;
+};
+
+export const formatRemaining = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  if (h > 0) return `${h}h ${String(m).padStart(2, '0')}m`;
+  if (m > 0) return `${m}m`;
+  return `${Math.floor(seconds)}s`;
+};
@@ -0,0 +1,185 @@
+// Renderers for the waveform, RGB parade and vectorscope.
+// Each scope accumulates hit counts into a small trace buffer which is then
+// tone-mapped to brightness, the same way a hardware scope's phosphor glows.
+
+import { lumaOf, lumaToIre } from './frameAnalysis';
+
+export const IRE_MAX = 109;
+const TRACE_HEIGHT = 220;
+
+let scratchCanvas: HTMLCanvasElement | null = null;
+
+// putImageData ignores transforms, so traces are put on a scratch canvas and scaled from there.
+const blitTrace = (ctx: CanvasRenderingContext2D, trace: ImageData, x: number, y: number, w: number, h: number) => {
+  if (!scratchCanvas) scratchCanvas = document.createElement('canvas');
+  scratchCanvas.width = trace.width;
+  scratchCanvas.height = trace.height;
+  scratchCanvas.getContext('2d')?.putImageData(trace, 0, 0);
+  ctx.drawImage(scratchCanvas, x, y, w, h);
+};
+
+const ireToRow = (ire: number) => {
+  const clamped = Math.max(0, Math.min(IRE_MAX, ire));
+  return Math.round((1 - clamped / IRE_MAX) * (TRACE_HEIGHT - 1));
+};
+
+// Converts an accumulation buffer into a coloured trace image.
+const toTrace = (counts: Uint32Array, width: number, height: number, gain: number, color: [number, number, number]) => {
+  const trace = new ImageData(width, height);
+  for (let i = 0; i < counts.length; i++) {
+    if (!counts[i]) continue;
+    const intensity = 1 - Math.exp(-counts[i] * gain);
+    trace.data[i * 4] = color[0];
+    trace.data[i * 4 + 1] = color[1];
+    trace.data[i * 4 + 2] = color[2];
+    trace.data[i * 4 + 3] = Math.round(255 * Math.min(1, 0.15 + intensity));
+  }
+  return trace;
+};
+
+const drawIreGraticule = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, labels: boolean) => {
+  ctx.save();
+  ctx.font = '9px monospace';
+  ctx.textBaseline = 'middle';
+  for (let ire = 0; ire <= 100; ire += 10) {
+    const ly = y + (1 - ire / IRE_MAX) * h;
+    ctx.strokeStyle = ire === 0 || ire === 100 ? 'rgba(255,255,255,0.35)' : 'rgba(255,255,255,0.12)';
+    ctx.beginPath();
+    ctx.moveTo(x, ly);
+    ctx.lineTo(x + w, ly);
+    ctx.stroke();
+    if (labels && ire % 20 === 0) {
+      ctx.fillStyle = 'rgba(255,255,255,0.4)';
+      ctx.fillText(String(ire), 2, ly);
+    }
+  }
+  // Super-white ceiling
+  ctx.setLineDash([3, 3]);
+  ctx.strokeStyle = 'rgba(239,68,68,0.5)';
+  ctx.beginPath();
+  ctx.moveTo(x, y + 1);
+  ctx.lineTo(x + w, y + 1);
+  ctx.stroke();
+  ctx.restore();
+};
+
+const LABEL_GUTTER = 22;
+
+export const drawWaveform = (ctx: CanvasRenderingContext2D, frame: ImageData) => {
+  const { width: cw, height: ch } = ctx.canvas;
+  const fw = frame.width;
+  const counts = new Uint32Array(fw * TRACE_HEIGHT);
+  const data = frame.data;
+
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const col = p % fw;
+    const row = ireToRow(lumaToIre(lumaOf(data[i], data[i + 1], data[i + 2])));
+    counts[row * fw + col]++;
+  }
+
+  ctx.clearRect(0, 0, cw, ch);
+  const gain = TRACE_HEIGHT / frame.height * 0.6;
+  blitTrace(ctx, toTrace(counts, fw, TRACE_HEIGHT, gain, [134, 239, 172]), LABEL_GUTTER, 0, cw - LABEL_GUTTER, ch);
+  drawIreGraticule(ctx, LABEL_GUTTER, 0, cw - LABEL_GUTTER, ch, true);
+};
+
+export const drawParade = (ctx: CanvasRenderingContext2D, frame: ImageData) => {
+  const { width: cw, height: ch } = ctx.canvas;
+  const fw = frame.width;
+  const channels = [new Uint32Array(fw * TRACE_HEIGHT), new Uint32Array(fw * TRACE_HEIGHT), new Uint32Array(fw * TRACE_HEIGHT)];
+  const data = frame.data;
+
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const col = p % fw;
+    for (let c = 0; c < 3; c++) {
+      channels[c][ireToRow(lumaToIre(data[i + c])) * fw + col]++;
+    }
+  }
+
+  ctx.clearRect(0, 0, cw, ch);
+  const gain = TRACE_HEIGHT / frame.height * 0.6;
+  const colors: [number, number, number][] = [[248, 113, 113], [74, 222, 128], [96, 165, 250]];
+  const gap = 4;
+  const w = (cw - LABEL_GUTTER - gap * 2) / 3;
+  channels.forEach((counts, c) => {
+    const x = LABEL_GUTTER + c * (w + gap);
+    blitTrace(ctx, toTrace(counts, fw, TRACE_HEIGHT, gain, colors[c]), x, 0, w, ch);
+    drawIreGraticule(ctx, x, 0, w, ch, c === 0);
+  });
+};
+
+// BT.709 colour difference, normalised to -0.5..0.5
+const toCbCr = (r: number, g: number, b: number) => {
+  const y = lumaOf(r, g, b);
+  return { cb: (b - y) / 1.8556, cr: (r - y) / 1.5748 };
+};
+
+const VECTOR_SIZE = 256;
+// 75% colour bar targets
+const VECTOR_TARGETS: { label: string; rgb: [number, number, number] }[] = [
+  { label: 'R', rgb: [0.75, 0, 0] },
+  { label: 'MG', rgb: [0.75, 0, 0.75] },
+  { label: 'B', rgb: [0, 0, 0.75] },
+  { label: 'CY', rgb: [0, 0.75, 0.75] },
+  { label: 'G', rgb: [0, 0.75, 0] },
+  { label: 'YL', rgb: [0.75, 0.75, 0] }
+];
+const SKIN_TONE_ANGLE = 123; // degrees counter-clockwise from +Cb
+
+export const drawVectorscope = (ctx: CanvasRenderingContext2D, frame: ImageData) => {
+  const { width: cw, height: ch } = ctx.canvas;
+  const counts = new Uint32Array(VECTOR_SIZE * VECTOR_SIZE);
+  const half = VECTOR_SIZE / 2;
+  const scale = VECTOR_SIZE * 0.9; // |0.5| lands on the outer ring
+  const data = frame.data;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const { cb, cr } = toCbCr(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255);
+    const x = Math.round(half + cb * scale);
+    const y = Math.round(half - cr * scale);
+    if (x >= 0 && x < VECTOR_SIZE && y >= 0 && y < VECTOR_SIZE) counts[y * VECTOR_SIZE + x]++;
+  }
+
+  ctx.clearRect(0, 0, cw, ch);
+  const size = Math.min(cw, ch);
+  const ox = (cw - size) / 2;
+  const oy = (ch - size) / 2;
+  const gain = 16000 / (frame.width * frame.height);
+  blitTrace(ctx, toTrace(counts, VECTOR_SIZE, VECTOR_SIZE, gain, [134, 239, 172]), ox, oy, size, size);
+
+  // Graticule
+  const cx = ox + size / 2;
+  const cy = oy + size / 2;
+  const ringRadius = size * 0.45;
+  ctx.save();
+  ctx.strokeStyle = 'rgba(255,255,255,0.25)';
+  ctx.beginPath();
+  ctx.arc(cx, cy, ringRadius, 0, Math.PI * 2);
+  ctx.moveTo(cx - ringRadius, cy);
+  ctx.lineTo(cx + ringRadius, cy);
+  ctx.moveTo(cx, cy - ringRadius);
+  ctx.lineTo(cx, cy + ringRadius);
+  ctx.stroke();
+
+  ctx.font = '9px monospace';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  for (const target of VECTOR_TARGETS) {
+    const { cb, cr } = toCbCr(...target.rgb);
+    const tx = cx + cb * size * 0.9;
+    const ty = cy - cr * size * 0.9;
+    ctx.strokeStyle = 'rgba(255,255,255,0.5)';
+    ctx.strokeRect(tx - 5, ty - 5, 10, 10);
+    ctx.fillStyle = 'rgba(255,255,255,0.5)';
+    ctx.fillText(target.label, tx + (cb > 0 ? 14 : -14), ty);
+  }
+
+  // Skin tone (I) line
+  const angle = SKIN_TONE_ANGLE * Math.PI / 180;
+  ctx.strokeStyle = 'rgba(251,146,60,0.7)';
+  ctx.beginPath();
+  ctx.moveTo(cx, cy);
+  ctx.lineTo(cx + Math.cos(angle) * ringRadius, cy - Math.sin(angle) * ringRadius);
+  ctx.stroke();
+  ctx.restore();
+};
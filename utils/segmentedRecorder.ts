@@ -0,0 +1,139 @@
+// Long takes as a series of files. A WebM/MP4 file can't be cut after the fact,
+// so a rollover starts a fresh recorder on the same stream first and only then
+// stops the old one: consecutive segments overlap by a moment instead of
+// leaving a gap. Each finished segment is handed over (and can be freed)
+// immediately, so memory use is bounded by the segment size, not the take.
+
+import { TakeWriter } from './takeRecovery';
+
+export interface SegmentLimits {
+  minutes: number; // 0 = no time limit
+  megabytes: number; // 0 = no size limit
+}
+
+export interface SegmentEvents {
+  /** Creates the crash-safe writer for segment `index` (1-based). */
+  createWriter: (index: number) => TakeWriter;
+  /** A segment is complete: store it, then discard its writer. */
+  onSegment: (blob: Blob, segment: SegmentInfo, writer: TakeWriter) => void;
+  /** The last segment has been handed over. */
+  onStop: () => void;
+  onError: (event: Event) => void;
+}
+
+export interface SegmentInfo {
+  index: number; // 1-based
+  startedAt: number; // Epoch ms of the segment's first frame
+  duration: number; // Seconds
+}
+
+interface ActiveSegment {
+  index: number;
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  bytes: number;
+  startedAt: number;
+  writer: TakeWriter;
+}
+
+export const isSplitting = (limits: SegmentLimits) => limits.minutes > 0 || limits.megabytes > 0;
+
+export class SegmentedRecorder {
+  private current: ActiveSegment;
+  private live = new Set<ActiveSegment>(); // Segments whose file hasn't been handed over yet
+  private stopped = false;
+  private totalBytes = 0;
+  readonly startedAt: number;
+
+  /** `initial` takes over an already running recorder (pre-roll) as segment 1. */
+  constructor(
+    private stream: MediaStream,
+    private options: MediaRecorderOptions,
+    private limits: SegmentLimits,
+    private events: SegmentEvents,
+    initial?: { recorder: MediaRecorder; chunks: Blob[]; startedAt: number }
+  ) {
+    this.current = initial
+      ? this.attach(1, initial.recorder, initial.chunks, initial.startedAt)
+      : this.attach(1, new MediaRecorder(stream, options), [], Date.now());
+    this.startedAt = this.current.startedAt;
+  }
+
+  get state(): RecordingState {
+    return this.stopped ? 'inactive' : 'recording';
+  }
+
+  get segmentIndex() {
+    return this.current.index;
+  }
+
+  /** Average bits per second written so far, or null before the first chunk. */
+  get bitrate(): number | null {
+    const seconds = (Date.now() - this.startedAt) / 1000;
+    return this.totalBytes > 0 && seconds > 0 ? this.totalBytes * 8 / seconds : null;
+  }
+
+  stop() {
+    if (this.stopped) return;
+    this.stopped = true;
+    if (this.live.size === 0) this.events.onStop();
+    else this.finish(this.current);
+  }
+
+  private attach(index: number, recorder: MediaRecorder, chunks: Blob[], startedAt: number): ActiveSegment {
+    const writer = this.events.createWriter(index);
+    const segment: ActiveSegment = { index, recorder, chunks, bytes: 0, startedAt, writer };
+    this.live.add(segment);
+    chunks.forEach(chunk => {
+      writer.append(chunk);
+      segment.bytes += chunk.size;
+      this.totalBytes += chunk.size;
+    });
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size === 0) return;
+      segment.chunks.push(e.data);
+      segment.bytes += e.data.size;
+      this.totalBytes += e.data.size;
+      writer.append(e.data);
+      if (segment === this.current && !this.stopped && this.isFull(segment)) this.rollover();
+    };
+    recorder.onerror = (event) => this.events.onError(event);
+    recorder.onstop = () => {
+      const blob = new Blob(segment.chunks, { type: recorder.mimeType || this.options.mimeType });
+      const duration = (Date.now() - segment.startedAt) / 1000;
+      this.events.onSegment(blob, { index, startedAt: segment.startedAt, duration }, writer);
+      segment.chunks = [];
+      this.live.delete(segment);
+      if (this.stopped && this.live.size === 0) this.events.onStop();
+    };
+
+    if (recorder.state === 'inactive') recorder.start(1000);
+    return segment;
+  }
+
+  private isFull(segment: ActiveSegment) {
+    const { minutes, megabytes } = this.limits;
+    return (minutes > 0 && Date.now() - segment.startedAt >= minutes * 60000) ||
+      (megabytes > 0 && segment.bytes >= megabytes * 1e6);
+  }
+
+  private rollover() {
+    const previous = this.current;
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(this.stream, this.options);
+      recorder.start(1000);
+    } catch (err) {
+      // Keep the take going in one file rather than losing it
+      console.error("Could not start the next segment, continuing in the current file:", err);
+      return;
+    }
+    this.current = this.attach(previous.index + 1, recorder, [], Date.now());
+    this.finish(previous);
+  }
+
+  private finish(segment: ActiveSegment) {
+    if (segment.recorder.state !== 'inactive') segment.recorder.stop();
+  }
+}
@@ -0,0 +1,152 @@
+// Wrap package for the editor: the shot list and every take as FCPXML (clips
+// in an event, keyworded by shot, rated and annotated, plus a project of the
+// circled takes), a CMX3600 EDL of the circled takes and an Avid ALE. Clips are
+// named Scene_TakeN so the metadata matches the files without retyping. The
+// FCPXML media paths need relinking, as with the marker export.
+
+import { LibraryTake, Shot, TimecodeRate } from '../types';
+import { TIMECODE_RATES, framesToTimecode } from './timecode';
+import {
+  TimelineClip,
+  edlEvent,
+  edlHeader,
+  edlLocators,
+  escapeXml,
+  exportRateFor,
+  fcpxmlFormats,
+  fcpxmlMarkers,
+  fcpxmlMediaSrc,
+  fcpxmlTime,
+  layoutTimeline,
+  oneLine
+} from './markerExport';
+import { downloadBlob } from './download';
+
+const RATING_LABELS = { none: '', circle: 'CIRCLE', ng: 'NG' } as const;
+
+// ALE wants the rate as a plain number
+const ALE_FPS: Record<TimecodeRate, string> = {
+  '23.976': '23.976',
+  '24': '24',
+  '25': '25',
+  '29.97DF': '29.97',
+  '30': '30'
+};
+
+/** Scene_TakeN, keeping any suffix the recorder added (_Part02, _CLEAN). */
+export const clipName = (take: LibraryTake) => {
+  const base = take.filename.replace(/\.[^.]+$/, '');
+  if (!take.shotName || take.take === null) return base;
+  const name = `${take.shotName.replace(/\s+/g, '_')}_Take${take.take}`;
+  return base.startsWith(name) ? base : name;
+};
+
+// Shot list order, then take number, then recording order; takes of deleted
+// or unnamed shots go last
+const sessionOrder = (takes: LibraryTake[], shots: Shot[]) => {
+  const shotIndex = (take: LibraryTake) => {
+    const index = shots.findIndex(s => s.id === take.shotId);
+    return index === -1 ? shots.length : index;
+  };
+  return [...takes].sort((a, b) =>
+    shotIndex(a) - shotIndex(b) || (a.take ?? 0) - (b.take ?? 0) || a.createdAt - b.createdAt
+  );
+};
+
+const buildFcpxml = (clips: TimelineClip[], circled: TimelineClip[], rate: TimecodeRate, title: string) => {
+  const t = (frames: number) => fcpxmlTime(frames, rate);
+  const formats = fcpxmlFormats(clips, rate);
+  const tcFormat = TIMECODE_RATES[rate].dropFrame ? 'DF' : 'NDF';
+  const assetId = new Map(clips.map((clip, i) => [clip.take.id, `a${i + 1}`]));
+
+  const assets = clips.map((clip, i) =>
+    `    <asset id="${assetId.get(clip.take.id)}" name="${escapeXml(clipName(clip.take))}" src="${escapeXml(fcpxmlMediaSrc(clip.take.filename))}" ` +
+    `start="${t(clip.sourceIn)}" duration="${t(clip.length)}" hasVideo="${clip.take.kind === 'video' ? 1 : 0}" hasAudio="1" format="${formats.formatOf(i)}"/>`
+  ).join('\n');
+
+  // Browser clips: notes, shot keyword, favorite/reject and markers over the whole clip
+  const eventClips = clips.map(clip => {
+    const whole = `start="${t(clip.sourceIn)}" duration="${t(clip.length)}"`;
+    const children = [
+      clip.take.notes && `        <note>${escapeXml(clip.take.notes)}</note>`,
+      clip.take.shotName && `        <keyword ${whole} value="${escapeXml(clip.take.shotName)}"/>`,
+      clip.take.rating !== 'none' && `        <rating ${whole} value="${clip.take.rating === 'circle' ? 'favorite' : 'reject'}"/>`,
+      fcpxmlMarkers(clip, rate, '        ')
+    ].filter(Boolean).join('\n');
+    return `      <asset-clip ref="${assetId.get(clip.take.id)}" name="${escapeXml(clipName(clip.take))}" ${whole} tcFormat="${tcFormat}">` +
+      (children ? `\n${children}\n      ` : '') + '</asset-clip>';
+  }).join('\n');
+
+  const spine = circled.map(clip => {
+    const markers = fcpxmlMarkers(clip, rate, '              ');
+    return `            <asset-clip ref="${assetId.get(clip.take.id)}" name="${escapeXml(clipName(clip.take))}" offset="${t(clip.recordIn)}" ` +
+      `start="${t(clip.sourceIn)}" duration="${t(clip.length)}" tcFormat="${tcFormat}">` +
+      (markers ? `\n${markers}\n            ` : '') + '</asset-clip>';
+  }).join('\n');
+  const start = circled[0]?.recordIn ?? 0;
+  const total = circled.reduce((sum, clip) => sum + clip.length, 0);
+  const project = circled.length === 0 ? '' :
+    `      <project name="${escapeXml(title)} Circled Takes">\n` +
+    `        <sequence format="r0" tcStart="${t(start)}" tcFormat="${tcFormat}" duration="${t(total)}">\n          <spine>\n` +
+    `${spine}\n          </spine>\n        </sequence>\n      </project>\n`;
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE fcpxml>\n<fcpxml version="1.8">\n' +
+    `  <resources>\n${formats.xml}\n${assets}\n  </resources>\n` +
+    `  <library>\n    <event name="${escapeXml(title)}">\n${eventClips}\n${project}    </event>\n  </library>\n</fcpxml>\n`;
+};
+
+const buildEdl = (circled: TimelineClip[], rate: TimecodeRate, title: string) =>
+  edlHeader(`${title} CIRCLED`, rate) +
+  circled.map((clip, i) => edlEvent(i + 1, clip, rate) + edlLocators(clip, rate)).join('\r\n');
+
+// Avid Log Exchange: tab separated, one row per file, source timecode
+const buildAle = (clips: TimelineClip[], rate: TimecodeRate) => {
+  const tc = (frames: number) => framesToTimecode(frames, rate);
+  const field = (text: string) => oneLine(text.replace(/\t/g, ' '));
+  const columns = ['Name', 'Tracks', 'Start', 'End', 'Duration', 'Source File', 'Scene', 'Take', 'Rating', 'Comments'];
+  const rows = clips.map(({ take, sourceIn, length }) => [
+    clipName(take),
+    take.kind === 'video' ? 'VA1' : 'A1',
+    tc(sourceIn),
+    tc(sourceIn + length),
+    tc(length),
+    take.filename,
+    take.shotName ?? '',
+    take.take !== null ? String(take.take) : '',
+    RATING_LABELS[take.rating],
+    take.notes
+  ].map(field).join('\t'));
+  // Only the WAVs know their rate (it's the phone's, often 44.1 kHz): left out unless they all agree
+  const rates = new Set(clips.map(clip => clip.take.sampleRate).filter(Boolean));
+  const audioRate = rates.size === 1 ? [...rates][0] : null;
+
+  return [
+    'Heading',
+    'FIELD_DELIM\tTABS',
+    'VIDEO_FORMAT\t1080',
+    ...(audioRate ? [`AUDIO_FORMAT\t${audioRate / 1000}khz`] : []),
+    `FPS\t${ALE_FPS[rate]}`,
+    '',
+    'Column',
+    columns.join('\t'),
+    '',
+    'Data',
+    ...rows
+  ].join('\r\n') + '\r\n';
+};
+
+/** Downloads the FCPXML, EDL (circled takes only) and ALE for the whole session. */
+export const exportSession = (takes: LibraryTake[], shots: Shot[], title: string) => {
+  if (takes.length === 0) throw new Error('No takes to export');
+  const rate = exportRateFor(takes);
+  const ordered = sessionOrder(takes, shots);
+  const clips = layoutTimeline(ordered, rate);
+  const circled = layoutTimeline(ordered.filter(t => t.rating === 'circle'), rate);
+  const base = title.replace(/\s+/g, '_');
+
+  downloadBlob(new Blob([buildFcpxml(clips, circled, rate, title)], { type: 'application/xml' }), `${base}.fcpxml`);
+  if (circled.length > 0) {
+    downloadBlob(new Blob([buildEdl(circled, rate, title)], { type: 'text/plain' }), `${base}_circled.edl`);
+  }
+  downloadBlob(new Blob([buildAle(clips, rate)], { type: 'text/plain' }), `${base}.ale`);
+};
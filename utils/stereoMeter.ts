@@ -0,0 +1,77 @@
+// Stereo analysis for the audio monitor: level per channel, L/R correlation
+// (phase) and inputs that only carry signal on one side, which is what a
+// dual-channel wireless receiver with one dead or muted transmitter sends.
+
+import { MonitorMode } from '../types';
+
+const SIGNAL_RMS = 0.01; // About -40 dBFS: something is being said
+const DEAD_RATIO = 0.03; // About 30 dB below the other side
+const OUT_OF_PHASE = -0.3;
+// Conditions must hold this long before they are flagged, so a pause or a
+// single hard-panned sound doesn't raise a warning
+const ISSUE_HOLD_MS = 1500;
+const CORRELATION_SMOOTHING = 0.9;
+
+export type StereoIssue = 'left-only' | 'right-only' | 'out-of-phase';
+
+export const STEREO_ISSUE_LABELS: Record<StereoIssue, string> = {
+  'left-only': 'R SILENT · SIGNAL ON L ONLY',
+  'right-only': 'L SILENT · SIGNAL ON R ONLY',
+  'out-of-phase': 'L/R OUT OF PHASE'
+};
+
+// Gains for [L→left ear, R→left ear, L→right ear, R→right ear]
+export const MONITOR_ROUTING: Record<MonitorMode, [number, number, number, number]> = {
+  off: [0, 0, 0, 0],
+  stereo: [1, 0, 0, 1],
+  mono: [0.5, 0.5, 0.5, 0.5],
+  left: [1, 0, 1, 0],
+  right: [0, 1, 0, 1]
+};
+
+export const rmsOf = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+};
+
+/** Pearson correlation of the two channels: +1 mono, 0 unrelated, -1 inverted. Null in silence. */
+export const correlationOf = (left: Float32Array, right: Float32Array) => {
+  let lr = 0;
+  let ll = 0;
+  let rr = 0;
+  for (let i = 0; i < left.length; i++) {
+    lr += left[i] * right[i];
+    ll += left[i] * left[i];
+    rr += right[i] * right[i];
+  }
+  return ll > 0 && rr > 0 ? lr / Math.sqrt(ll * rr) : null;
+};
+
+export class StereoAnalyzer {
+  /** Smoothed correlation, as a phase meter shows it. */
+  correlation = 1;
+  private pending: { issue: StereoIssue | null; since: number } = { issue: null, since: 0 };
+  private current: StereoIssue | null = null;
+
+  /** Feeds one block of both channels; returns the issue that has held long enough, if any. */
+  update(left: Float32Array, right: Float32Array, now: number): StereoIssue | null {
+    const leftRms = rmsOf(left);
+    const rightRms = rmsOf(right);
+    const correlation = correlationOf(left, right);
+    if (correlation !== null && Math.max(leftRms, rightRms) > SIGNAL_RMS * 0.1) {
+      this.correlation = this.correlation * CORRELATION_SMOOTHING + correlation * (1 - CORRELATION_SMOOTHING);
+    }
+
+    let issue: StereoIssue | null = null;
+    if (leftRms > SIGNAL_RMS && rightRms < leftRms * DEAD_RATIO) issue = 'left-only';
+    else if (rightRms > SIGNAL_RMS && leftRms < rightRms * DEAD_RATIO) issue = 'right-only';
+    else if (Math.max(leftRms, rightRms) > SIGNAL_RMS && this.correlation < OUT_OF_PHASE) issue = 'out-of-phase';
+    // In silence the last verdict stands: a dead side stays flagged between lines
+    else if (Math.max(leftRms, rightRms) <= SIGNAL_RMS) issue = this.current;
+
+    if (issue !== this.pending.issue) this.pending = { issue, since: now };
+    if (now - this.pending.since >= ISSUE_HOLD_MS) this.current = issue;
+    return this.current;
+  }
+}
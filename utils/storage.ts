@@ -0,0 +1,65 @@
+// Minimal promise wrapper around IndexedDB for data too large for localStorage
+// (LUTs, media, recording chunks). Add new object stores to STORES and bump DB_VERSION.
+
+const DB_NAME = 'a6000-monitor';
+const DB_VERSION = 4;
+const STORES: Record<string, IDBObjectStoreParameters> = {
+  luts: { keyPath: 'id' },
+  plates: { keyPath: 'id' },
+  takes: { keyPath: 'id' },
+  takeChunks: { keyPath: ['takeId', 'index'] },
+  library: { keyPath: 'id' },
+  libraryMedia: { keyPath: 'id' }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const [name, params] of Object.entries(STORES)) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, params);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const idbGetAll = async <T>(store: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const idbGetAllInRange = async <T>(store: string, range: IDBKeyRange): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll(range) as IDBRequest<T[]>);
+};
+
+export const idbGet = async <T>(store: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).get(key) as IDBRequest<T | undefined>);
+};
+
+export const idbPut = async <T>(store: string, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const idbDelete = async (store: string, key: IDBValidKey | IDBKeyRange): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
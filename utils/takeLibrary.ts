@@ -0,0 +1,142 @@
+// Take bin: finished takes stay on the device (IndexedDB) so they can be
+// reviewed, rated and annotated on set, then exported when it suits. Metadata
+// and media live in separate stores so listing the bin never loads the files.
+
+import { LibraryTake, TakeMarker, TimecodeRate } from '../types';
+import { idbGetAll, idbGet, idbPut, idbDelete } from './storage';
+import { downloadBlob } from './download';
+
+const LIBRARY_STORE = 'library';
+const MEDIA_STORE = 'libraryMedia';
+const SOURCE_ID = 'live-video-element';
+
+const THUMBNAIL_WIDTH = 160;
+const WAVEFORM_BINS = 160;
+// Decoding the whole file for the waveform needs it in memory several times over
+const WAVEFORM_MAX_BYTES = 150 * 1024 * 1024;
+
+interface LibraryMedia {
+  id: string;
+  blob: Blob;
+}
+
+export interface NewLibraryTake {
+  filename: string;
+  shotId: string | null;
+  shotName: string | null;
+  take: number | null;
+  timecode: string | null;
+  timecodeRate: TimecodeRate | null;
+  duration: number;
+  sampleRate?: number;
+  markers: TakeMarker[];
+}
+
+// Still of the live picture as the take ends; decoding the recorded file
+// back is unreliable (MediaRecorder WebM has no duration/cues to seek with)
+const grabThumbnail = (): string | null => {
+  const video = document.getElementById(SOURCE_ID) as HTMLVideoElement | null;
+  if (!video || video.readyState < video.HAVE_CURRENT_DATA || !video.videoWidth) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.round(THUMBNAIL_WIDTH * video.videoHeight / video.videoWidth);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+// The relay records at the live picture's size, so that's the file's frame size
+const liveFrameSize = () => {
+  const video = document.getElementById(SOURCE_ID) as HTMLVideoElement | null;
+  return video && video.videoWidth ? { width: video.videoWidth, height: video.videoHeight } : null;
+};
+
+/** Peak level per bin across all channels, or null if the audio can't be decoded. */
+export const computeWaveform = async (blob: Blob, bins = WAVEFORM_BINS): Promise<number[] | null> => {
+  if (blob.size > WAVEFORM_MAX_BYTES) return null;
+  const context = new OfflineAudioContext(1, 1, 44100);
+  try {
+    const audio = await context.decodeAudioData(await blob.arrayBuffer());
+    const peaks = new Array<number>(bins).fill(0);
+    const binSize = Math.max(1, Math.floor(audio.length / bins));
+    for (let c = 0; c < audio.numberOfChannels; c++) {
+      const data = audio.getChannelData(c);
+      for (let i = 0; i < data.length; i++) {
+        const bin = Math.min(bins - 1, Math.floor(i / binSize));
+        const v = Math.abs(data[i]);
+        if (v > peaks[bin]) peaks[bin] = v;
+      }
+    }
+    return peaks.map(p => Math.round(p * 1000) / 1000);
+  } catch (err) {
+    console.warn("No waveform for take (audio not decodable):", err);
+    return null;
+  }
+};
+
+export const addToLibrary = async (blob: Blob, info: NewLibraryTake): Promise<LibraryTake> => {
+  const isVideo = blob.type.startsWith('video');
+  const thumbnail = isVideo ? grabThumbnail() : null;
+  const take: LibraryTake = {
+    ...info,
+    id: `lib-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    mimeType: blob.type,
+    kind: isVideo ? 'video' : 'audio',
+    frameSize: isVideo ? liveFrameSize() : null,
+    sampleRate: info.sampleRate ?? null,
+    createdAt: Date.now(),
+    size: blob.size,
+    thumbnail,
+    waveform: await computeWaveform(blob),
+    rating: 'none',
+    notes: ''
+  };
+  // Media first: a listed take must always be playable
+  await idbPut<LibraryMedia>(MEDIA_STORE, { id: take.id, blob });
+  await idbPut(LIBRARY_STORE, take);
+  return take;
+};
+
+export const listLibrary = async (): Promise<LibraryTake[]> => {
+  const takes = await idbGetAll<LibraryTake>(LIBRARY_STORE);
+  // Takes stored before markers, frame sizes or sample rates existed have none
+  return takes.map(take => ({
+    ...take,
+    markers: take.markers ?? [],
+    frameSize: take.frameSize ?? null,
+    sampleRate: take.sampleRate ?? null
+  })).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const loadTakeMedia = async (id: string): Promise<Blob | null> => {
+  const media = await idbGet<LibraryMedia>(MEDIA_STORE, id);
+  return media ? media.blob : null;
+};
+
+export const updateLibraryTake = (take: LibraryTake) => idbPut(LIBRARY_STORE, take);
+
+export const deleteLibraryTake = async (id: string) => {
+  await idbDelete(LIBRARY_STORE, id);
+  await idbDelete(MEDIA_STORE, id);
+};
+
+export const exportTakes = async (takes: LibraryTake[]) => {
+  for (const take of takes) {
+    const blob = await loadTakeMedia(take.id);
+    if (blob) downloadBlob(blob, take.filename);
+  }
+};
+
+export const canShareFiles = () => typeof navigator.canShare === 'function';
+
+/** Hands the files to the Android share sheet (Drive, WhatsApp, Nearby Share...). */
+export const shareTakes = async (takes: LibraryTake[]) => {
+  const files: File[] = [];
+  for (const take of takes) {
+    const blob = await loadTakeMedia(take.id);
+    if (blob) files.push(new File([blob], take.filename, { type: take.mimeType }));
+  }
+  if (!navigator.canShare?.({ files })) throw new Error('Sharing these files is not supported on this device');
+  await navigator.share({ files, title: takes.length === 1 ? takes[0].filename : `${takes.length} takes` });
+};
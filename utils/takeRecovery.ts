@@ -0,0 +1,80 @@
+// Crash-safe takes. Every MediaRecorder chunk is written to IndexedDB as it
+// arrives; the in-memory copy is only used for the fast export on stop. If the
+// app dies mid-take, the chunks are still on disk and the next launch offers to
+// rebuild the file (chunks concatenated in order form a valid stream).
+
+import { idbGetAll, idbGetAllInRange, idbPut, idbDelete } from './storage';
+
+const TAKE_STORE = 'takes';
+const CHUNK_STORE = 'takeChunks';
+
+interface TakeRecord {
+  id: string;
+  filename: string; // Including extension
+  mimeType: string;
+  startedAt: number;
+}
+
+interface TakeChunk {
+  takeId: string;
+  index: number;
+  blob: Blob;
+}
+
+export interface OrphanedTake extends TakeRecord {
+  chunkCount: number;
+  size: number;
+}
+
+const chunkRange = (takeId: string) => IDBKeyRange.bound([takeId, 0], [takeId, Infinity]);
+
+/** Persists one take's chunks in order; writes are queued so they never interleave. */
+export class TakeWriter {
+  readonly id = `take-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  private queue: Promise<void>;
+  private index = 0;
+  private failed = false;
+
+  constructor(filename: string, mimeType: string) {
+    const record: TakeRecord = { id: this.id, filename, mimeType, startedAt: Date.now() };
+    this.queue = idbPut(TAKE_STORE, record).catch(err => this.fail(err));
+  }
+
+  append(blob: Blob) {
+    const chunk: TakeChunk = { takeId: this.id, index: this.index++, blob };
+    this.queue = this.queue.then(() => {
+      if (!this.failed) return idbPut(CHUNK_STORE, chunk);
+    }).catch(err => this.fail(err));
+  }
+
+  /** Call once the take has been exported; removes the persisted copy. */
+  async discard() {
+    await this.queue;
+    await deleteTake(this.id);
+  }
+
+  private fail(err: unknown) {
+    // Keep recording to memory; the take just won't be recoverable
+    if (!this.failed) console.error("Could not persist recording chunk, take is not crash-safe:", err);
+    this.failed = true;
+  }
+}
+
+export const listOrphanedTakes = async (): Promise<OrphanedTake[]> => {
+  const records = await idbGetAll<TakeRecord>(TAKE_STORE);
+  const takes = await Promise.all(records.map(async record => {
+    const chunks = await idbGetAllInRange<TakeChunk>(CHUNK_STORE, chunkRange(record.id));
+    return { ...record, chunkCount: chunks.length, size: chunks.reduce((sum, c) => sum + c.blob.size, 0) };
+  }));
+  return takes.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const rebuildTake = async (take: TakeRecord): Promise<Blob> => {
+  const chunks = await idbGetAllInRange<TakeChunk>(CHUNK_STORE, chunkRange(take.id));
+  return new Blob(chunks.map(c => c.blob), { type: take.mimeType });
+};
+
+export const deleteTake = async (id: string) => {
+  await idbDelete(CHUNK_STORE, chunkRange(id));
+  await idbDelete(TAKE_STORE, id);
+};
@@ -0,0 +1,90 @@
+// SMPTE timecode engine. Time-of-day counts frames since local midnight at the
+// real frame rate; free-run counts from the value it was last jammed to. 29.97
+// is drop-frame: labels skip ;00 and ;01 every minute except each tenth so the
+// timecode stays on the wall clock.
+
+import { TimecodeRate, TimecodeSettings } from '../types';
+
+export interface TimecodeRateInfo {
+  fps: number; // Real frames per second
+  nominal: number; // Frames per timecode second
+  dropFrame: boolean;
+  ratio: string; // As written in XML/iXML
+}
+
+export const TIMECODE_RATES: Record<TimecodeRate, TimecodeRateInfo> = {
+  '23.976': { fps: 24000 / 1001, nominal: 24, dropFrame: false, ratio: '24000/1001' },
+  '24': { fps: 24, nominal: 24, dropFrame: false, ratio: '24/1' },
+  '25': { fps: 25, nominal: 25, dropFrame: false, ratio: '25/1' },
+  '29.97DF': { fps: 30000 / 1001, nominal: 30, dropFrame: true, ratio: '30000/1001' },
+  '30': { fps: 30, nominal: 30, dropFrame: false, ratio: '30/1' }
+};
+
+export const TIMECODE_RATE_LIST = Object.keys(TIMECODE_RATES) as TimecodeRate[];
+
+// 29.97 DF: frames per 10 minutes / per dropped minute
+const DF_TEN_MINUTES = 17982;
+const DF_MINUTE = 1798;
+
+/** Number of timecode labels in 24 hours, where the counter wraps. */
+export const framesPerDay = (rate: TimecodeRate) => {
+  const { nominal, dropFrame } = TIMECODE_RATES[rate];
+  return dropFrame ? 144 * DF_TEN_MINUTES : nominal * 86400;
+};
+
+const pad2 = (v: number) => String(v).padStart(2, '0');
+
+/** Frame count to HH:MM:SS:FF (HH:MM:SS;FF for drop-frame). */
+export const framesToTimecode = (frames: number, rate: TimecodeRate) => {
+  const { nominal, dropFrame } = TIMECODE_RATES[rate];
+  const perDay = framesPerDay(rate);
+  let count = ((Math.floor(frames) % perDay) + perDay) % perDay;
+
+  if (dropFrame) {
+    const tens = Math.floor(count / DF_TEN_MINUTES);
+    const rest = count % DF_TEN_MINUTES;
+    count += 18 * tens + (rest < 2 ? 0 : 2 * Math.floor((rest - 2) / DF_MINUTE));
+  }
+
+  const ff = count % nominal;
+  const totalSeconds = Math.floor(count / nominal);
+  const separator = dropFrame ? ';' : ':';
+  return `${pad2(Math.floor(totalSeconds / 3600))}:${pad2(Math.floor(totalSeconds / 60) % 60)}:${pad2(totalSeconds % 60)}${separator}${pad2(ff)}`;
+};
+
+/** Parses HH:MM:SS:FF (any of : ; . as separators); null if malformed or out of range. */
+export const timecodeToFrames = (timecode: string, rate: TimecodeRate): number | null => {
+  const match = timecode.trim().match(/^(\d{1,2})[:;.](\d{2})[:;.](\d{2})[:;.](\d{2})$/);
+  if (!match) return null;
+  const [h, m, s, f] = match.slice(1).map(Number);
+  const { nominal, dropFrame } = TIMECODE_RATES[rate];
+  if (h > 23 || m > 59 || s > 59 || f >= nominal) return null;
+
+  let frames = ((h * 60 + m) * 60 + s) * nominal + f;
+  if (dropFrame) {
+    const totalMinutes = h * 60 + m;
+    frames -= 2 * (totalMinutes - Math.floor(totalMinutes / 10));
+  }
+  return frames;
+};
+
+/** Position in (fractional) frames at `date`, not wrapped to 24h. */
+export const timecodePositionAt = (settings: TimecodeSettings, date: Date) => {
+  const { fps } = TIMECODE_RATES[settings.rate];
+  if (settings.mode === 'freerun') {
+    const start = timecodeToFrames(settings.freeRunStart, settings.rate) ?? 0;
+    return start + (date.getTime() - settings.freeRunStartedAt) / 1000 * fps;
+  }
+  const midnight = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  return (date.getTime() - midnight) / 1000 * fps;
+};
+
+export const timecodeAt = (settings: TimecodeSettings, date = new Date()) =>
+  framesToTimecode(timecodePositionAt(settings, date), settings.rate);
+
+/** Timecode at `date` in seconds since 00:00:00:00 (BWF time reference). */
+export const timecodeSecondsAt = (settings: TimecodeSettings, date: Date) => {
+  const perDay = framesPerDay(settings.rate);
+  const frames = ((Math.floor(timecodePositionAt(settings, date)) % perDay) + perDay) % perDay;
+  return frames / TIMECODE_RATES[settings.rate].fps;
+};
@@ -0,0 +1,61 @@
+// Video source selection: capture-card detection and the getUserMedia
+// constraints for the chosen resolution/frame rate.
+
+import { VideoDevice, VideoFormat, VideoInputSettings } from '../types';
+
+export const VIDEO_FORMATS: VideoFormat[] = [
+  { id: 'auto', label: 'AUTO', width: 1920, height: 1080, frameRate: null },
+  { id: '1080p25', label: '1080p25', width: 1920, height: 1080, frameRate: 25 },
+  { id: '1080p30', label: '1080p30', width: 1920, height: 1080, frameRate: 30 },
+  { id: '1080p50', label: '1080p50', width: 1920, height: 1080, frameRate: 50 },
+  { id: '1080p60', label: '1080p60', width: 1920, height: 1080, frameRate: 60 },
+  { id: '720p30', label: '720p30', width: 1280, height: 720, frameRate: 30 },
+  { id: '720p50', label: '720p50', width: 1280, height: 720, frameRate: 50 },
+  { id: '720p60', label: '720p60', width: 1280, height: 720, frameRate: 60 }
+];
+
+export const findVideoFormat = (id: string) => VIDEO_FORMATS.find(f => f.id === id) || VIDEO_FORMATS[0];
+
+// Cheap HDMI dongles mostly enumerate as "USB Video" / "USB3. 0 capture"
+const CAPTURE_CARD_HINTS = ['usb', 'capture', 'hdmi', 'cam link', 'uvc', 'ms2109', 'video grabber'];
+
+export const isCaptureCardLabel = (label: string) => {
+  const lower = label.toLowerCase();
+  return CAPTURE_CARD_HINTS.some(hint => lower.includes(hint));
+};
+
+export const listVideoDevices = async (): Promise<VideoDevice[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(d => d.kind === 'videoinput')
+    .map(d => ({
+      deviceId: d.deviceId,
+      label: d.label || `Camera ${d.deviceId.slice(0, 5)}...`,
+      isCaptureCard: isCaptureCardLabel(d.label)
+    }));
+};
+
+/**
+ * `strict` asks for exactly the chosen format, so a card that can't deliver it
+ * fails loudly instead of silently handing us something else.
+ */
+export const buildVideoConstraints = (input: VideoInputSettings, strict: boolean): MediaTrackConstraints => {
+  const format = findVideoFormat(input.formatId);
+  const value = (v: number) => (strict && format.frameRate !== null ? { exact: v } : { ideal: v });
+  return {
+    deviceId: input.deviceId ? { exact: input.deviceId } : undefined,
+    width: value(format.width),
+    height: value(format.height),
+    ...(format.frameRate !== null ? { frameRate: value(format.frameRate) } : {})
+  };
+};
+
+/**
+ * Looks for a device that dropped out. Ids can change when a USB card is
+ * re-plugged, so fall back to matching the label. Returns null until it's back.
+ */
+export const findReturningDevice = async (lost: { deviceId: string; label: string }): Promise<string | null> => {
+  const devices = await listVideoDevices();
+  const match = devices.find(d => d.deviceId === lost.deviceId) || devices.find(d => !!lost.label && d.label === lost.label);
+  return match ? match.deviceId : null;
+};
@@ -0,0 +1,260 @@
+// Recording feed rendered to a canvas. MediaRecorder can't swap tracks
+// mid-take, so the recorder gets a canvas track that we keep painting: the
+// selected source (clean, graded, chroma composite or full program with
+// overlays) while there is signal, a "SIGNAL LOST" slate during a gap (which
+// marks it in the file), then live frames again once the source is re-acquired.
+// Frames are painted as the source presents them rather than from
+// requestAnimationFrame, which stops when the screen dims or the app is in the
+// background; a timer keeps the slate going and stands in for browsers without
+// video frame callbacks.
+// Timecode burn-in goes on top of any source, except copies made to stay clean.
+
+import { ChromaBackground, FrameGuideSettings, Lut, LutInterpolation, ProgramOverlays, RecordingSource, SignalLoss, TimecodeSettings } from '../types';
+import { watchVideoFrames } from './frameAnalysis';
+import { LutRenderer } from './lutRenderer';
+import { parseRatio, fitGuide } from './frameGuides';
+import { timecodeAt } from './timecode';
+
+const SOURCE_ID = 'live-video-element';
+const CHROMA_ID = 'live-chroma-canvas';
+const PLATE_ID = 'live-plate-element';
+
+// Live production state the program feed is built from
+export interface ProgramState {
+  lut: Lut | null;
+  lutInterpolation: LutInterpolation;
+  isChromaActive: boolean;
+  chromaBackground: ChromaBackground;
+  frameGuides: FrameGuideSettings;
+  shotName: string | null;
+  overlays: ProgramOverlays;
+  timecode: TimecodeSettings;
+  videoDelayMs: number; // A/V offset: the picture shows the world this long ago
+}
+
+export class VideoRelay {
+  readonly stream: MediaStream;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private frameInterval: number; // ms
+  private timer = 0;
+  private watched: HTMLVideoElement | null = null;
+  private stopWatching: (() => void) | null = null;
+  private lastFrameAt = 0;
+  private lostSince: Date | null = null;
+  private source: RecordingSource;
+  private program: ProgramState | null = null;
+  private grader: LutRenderer | null = null;
+  private gradeCanvas: HTMLCanvasElement | null = null;
+  private allowBurnIn: boolean;
+
+  constructor(frameRate: number, source: RecordingSource = 'clean', allowBurnIn = true) {
+    this.source = source;
+    this.allowBurnIn = allowBurnIn;
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = 1920;
+    this.canvas.height = 1080;
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not available');
+    this.ctx = ctx;
+
+    if (source !== 'clean') {
+      this.gradeCanvas = document.createElement('canvas');
+      try {
+        this.grader = new LutRenderer(this.gradeCanvas);
+      } catch (err) {
+        console.warn('Recording without LUT: grading unavailable on this device', err);
+      }
+    }
+
+    this.stream = this.canvas.captureStream(frameRate);
+    this.frameInterval = 1000 / frameRate;
+    this.timer = window.setInterval(this.tick, this.frameInterval);
+  }
+
+  // A frozen feed is still recorded as it comes; only a source that's gone gets the slate
+  setSignalLost(loss: SignalLoss | null) {
+    this.lostSince = loss && loss.reason !== 'frozen' ? loss.at : null;
+  }
+
+  setProgram(program: ProgramState) {
+    const lutChanged = program.lut !== this.program?.lut || program.lutInterpolation !== this.program?.lutInterpolation;
+    this.program = program;
+    if (lutChanged) this.grader?.setLut(program.lut, program.lutInterpolation);
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.stopWatching?.();
+    this.stream.getTracks().forEach(t => t.stop());
+    this.grader?.dispose();
+  }
+
+  private tick = () => {
+    this.watchSource();
+    if (performance.now() - this.lastFrameAt > 2 * this.frameInterval) this.draw();
+  };
+
+  // The <video> is looked up again each tick: it's replaced when the source is reopened
+  private watchSource() {
+    const video = document.getElementById(SOURCE_ID) as HTMLVideoElement | null;
+    if (video === this.watched) return;
+    this.stopWatching?.();
+    this.watched = video;
+    this.stopWatching = video ? watchVideoFrames(video, this.onSourceFrame) : null;
+  }
+
+  private onSourceFrame = () => {
+    this.lastFrameAt = performance.now();
+    this.draw();
+  };
+
+  private draw() {
+    const { canvas, ctx } = this;
+    const video = document.getElementById(SOURCE_ID) as HTMLVideoElement | null;
+
+    if (this.lostSince) {
+      this.drawSlate(this.lostSince);
+      return;
+    }
+    if (!video || video.readyState < video.HAVE_CURRENT_DATA || !video.videoWidth) return;
+
+    // Size follows the source; it only changes if the card comes back in another format
+    if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+    }
+
+    const program = this.program;
+    const chroma = document.getElementById(CHROMA_ID) as HTMLCanvasElement | null;
+    const isComposite = (this.source === 'composite' || this.source === 'program') &&
+      !!program?.isChromaActive && !!chroma && chroma.width > 0;
+
+    if (isComposite) {
+      this.drawBackground(program!.chromaBackground);
+      ctx.drawImage(this.grade(chroma!), 0, 0, canvas.width, canvas.height);
+    } else {
+      ctx.drawImage(this.source === 'clean' ? video : this.grade(video), 0, 0, canvas.width, canvas.height);
+    }
+
+    if (this.source === 'program' && program) this.drawOverlays(program);
+    const showTimecode = (this.source === 'program' && program?.overlays.timecode) ||
+      (this.allowBurnIn && program?.timecode.burnIn);
+    if (showTimecode) {
+      this.drawLabel(timecodeAt(program!.timecode, new Date(Date.now() - program!.videoDelayMs)), 'bottom-right');
+    }
+  }
+
+  // Runs `source` through the LUT, or passes it straight through when there's none
+  private grade(source: HTMLVideoElement | HTMLCanvasElement): CanvasImageSource {
+    if (!this.grader || !this.gradeCanvas || !this.program?.lut) return source;
+    const width = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+    const height = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+    this.grader.render(source, width, height);
+    return this.gradeCanvas;
+  }
+
+  // Same framing as ChromaBackgroundLayer: object-cover, then offset and scale
+  private drawBackground(background: ChromaBackground) {
+    const { canvas, ctx } = this;
+    const { width, height } = canvas;
+    ctx.clearRect(0, 0, width, height);
+
+    if (background.kind === 'solid') {
+      ctx.fillStyle = background.color;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+    if (background.kind === 'checkerboard') {
+      const cell = Math.round(height / 34);
+      for (let y = 0; y * cell < height; y++) {
+        for (let x = 0; x * cell < width; x++) {
+          ctx.fillStyle = (x + y) % 2 ? '#b4b4b4' : '#7a7a7a';
+          ctx.fillRect(x * cell, y * cell, cell, cell);
+        }
+      }
+      return;
+    }
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+    const plate = document.getElementById(PLATE_ID) as HTMLImageElement | HTMLVideoElement | null;
+    if (!plate) return;
+    const plateWidth = plate instanceof HTMLVideoElement ? plate.videoWidth : plate.naturalWidth;
+    const plateHeight = plate instanceof HTMLVideoElement ? plate.videoHeight : plate.naturalHeight;
+    if (!plateWidth || !plateHeight) return;
+
+    const cover = Math.max(width / plateWidth, height / plateHeight) * background.scale;
+    const drawWidth = plateWidth * cover;
+    const drawHeight = plateHeight * cover;
+    const x = (width - drawWidth) / 2 + background.offsetX / 100 * width;
+    const y = (height - drawHeight) / 2 + background.offsetY / 100 * height;
+    ctx.drawImage(plate, x, y, drawWidth, drawHeight);
+  }
+
+  private drawOverlays(program: ProgramState) {
+    const { canvas, ctx } = this;
+    const { width, height } = canvas;
+    const { overlays, frameGuides, shotName } = program;
+
+    if (overlays.frameLines && frameGuides.ratios.length > 0) {
+      ctx.strokeStyle = frameGuides.lineColor;
+      ctx.lineWidth = Math.max(1, Math.round(height / 540));
+      for (const guide of frameGuides.ratios) {
+        const ratio = parseRatio(guide);
+        if (!ratio) continue;
+        const rect = fitGuide(ratio, width, height);
+        ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+      }
+    }
+
+    if (overlays.watermark) {
+      ctx.save();
+      ctx.translate(width / 2, height / 2);
+      ctx.rotate(-Math.PI / 12);
+      ctx.font = `bold ${Math.round(height / 8)}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.18)';
+      ctx.fillText(overlays.watermark, 0, 0);
+      ctx.restore();
+    }
+
+    if (overlays.shotName && shotName) this.drawLabel(shotName, 'top-left');
+  }
+
+  // Text on a dark box in a corner of the frame, sized to the frame height
+  private drawLabel(text: string, corner: 'top-left' | 'bottom-right') {
+    const { canvas, ctx } = this;
+    const { width, height } = canvas;
+    const fontSize = Math.round(height / 30);
+    const margin = Math.round(height / 30);
+    const isLeft = corner === 'top-left';
+    const x = isLeft ? margin : width - margin;
+    const y = isLeft ? margin : height - margin - fontSize;
+
+    ctx.font = `bold ${fontSize}px monospace`;
+    ctx.textBaseline = 'top';
+    ctx.textAlign = isLeft ? 'left' : 'right';
+    const textWidth = ctx.measureText(text).width;
+    const left = isLeft ? x : x - textWidth;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(left - fontSize * 0.3, y - fontSize * 0.2, textWidth + fontSize * 0.6, fontSize * 1.4);
+    ctx.fillStyle = '#fff';
+    ctx.fillText(text, x, y);
+  }
+
+  private drawSlate(since: Date) {
+    const { canvas, ctx } = this;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#dc2626';
+    ctx.font = `bold ${Math.round(canvas.height / 12)}px monospace`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('SIGNAL LOST', canvas.width / 2, canvas.height / 2);
+    ctx.fillStyle = '#a1a1aa';
+    ctx.font = `${Math.round(canvas.height / 28)}px monospace`;
+    ctx.fillText(`SINCE ${since.toLocaleTimeString()}`, canvas.width / 2, canvas.height / 2 + canvas.height / 10);
+  }
+}
@@ -0,0 +1,199 @@
+// WAV / Broadcast WAV writer: interleaved PCM encoding plus a RIFF header with
+// `bext` (EBU Tech 3285) and iXML chunks, so sound and editorial tools pick up
+// scene, take, timecode and date.
+
+import { TimecodeRate, WavBitDepth } from '../types';
+import { TIMECODE_RATES, framesToTimecode } from './timecode';
+
+export interface WavMetadata {
+  project: string;
+  scene: string | null;
+  take: number | null;
+  date: Date; // Start of the recording
+  timeReference: number; // Samples since 00:00:00:00 at the first sample
+  timecodeRate: TimecodeRate;
+  trackName: string | null; // Input name for the iXML track list, e.g. "Camera HDMI"
+}
+
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  bitDepth: WavBitDepth;
+}
+
+const ORIGINATOR = 'A6000 Monitor';
+// RIFF/data sizes for a file still being written (crash-recovered takes keep it)
+const UNKNOWN_SIZE = 0xffffffff;
+
+/** Interleaves and encodes one block of float samples (-1..1). */
+export const encodePcm = (channels: Float32Array[], bitDepth: WavBitDepth) => {
+  const frames = channels[0]?.length || 0;
+  const bytesPerSample = bitDepth / 8;
+  const out = new Uint8Array(frames * channels.length * bytesPerSample);
+  const view = new DataView(out.buffer);
+  let offset = 0;
+
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels.length; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      if (bitDepth === 32) {
+        view.setFloat32(offset, sample, true);
+      } else if (bitDepth === 24) {
+        const v = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff);
+        view.setUint8(offset, v & 0xff);
+        view.setUint8(offset + 1, (v >> 8) & 0xff);
+        view.setUint8(offset + 2, (v >> 16) & 0xff);
+      } else {
+        view.setInt16(offset, Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7fff), true);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return out;
+};
+
+const pad2 = (v: number) => String(v).padStart(2, '0');
+
+const timecodeOf = (meta: WavMetadata, sampleRate: number) =>
+  framesToTimecode(meta.timeReference / sampleRate * TIMECODE_RATES[meta.timecodeRate].fps, meta.timecodeRate);
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, ch => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[ch]!));
+
+class ChunkWriter {
+  private bytes: number[] = [];
+
+  // Fixed-width bext fields are ASCII only: anything else becomes '?'
+  ascii(text: string, length?: number) {
+    const plain = text.replace(/[^\x00-\x7f]/gu, '?');
+    const size = length ?? plain.length;
+    for (let i = 0; i < size; i++) this.bytes.push(i < plain.length ? plain.charCodeAt(i) : 0);
+  }
+
+  raw(bytes: Uint8Array) {
+    for (let i = 0; i < bytes.length; i++) this.bytes.push(bytes[i]);
+  }
+
+  u16(v: number) {
+    this.bytes.push(v & 0xff, (v >> 8) & 0xff);
+  }
+
+  u32(v: number) {
+    this.bytes.push(v & 0xff, (v >>> 8) & 0xff, (v >>> 16) & 0xff, (v >>> 24) & 0xff);
+  }
+
+  zeros(count: number) {
+    for (let i = 0; i < count; i++) this.bytes.push(0);
+  }
+
+  chunk(id: string, body: ChunkWriter) {
+    this.ascii(id, 4);
+    this.u32(body.length);
+    this.bytes.push(...body.bytes);
+    if (body.length % 2) this.bytes.push(0);
+  }
+
+  get length() {
+    return this.bytes.length;
+  }
+
+  toUint8Array() {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+const buildBext = (format: WavFormat, meta: WavMetadata) => {
+  const bext = new ChunkWriter();
+  const d = meta.date;
+  const description = [
+    meta.scene && `sSCENE=${meta.scene}`,
+    meta.take !== null && `sTAKE=${meta.take}`,
+    `sTC=${timecodeOf(meta, format.sampleRate)}`,
+    `sPROJECT=${meta.project}`
+  ].filter(Boolean).join('\r\n');
+
+  bext.ascii(description, 256);
+  bext.ascii(ORIGINATOR, 32);
+  bext.ascii(`${meta.scene || 'A6000'}_${meta.take ?? 0}`, 32);
+  bext.ascii(`${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`, 10);
+  bext.ascii(`${pad2(d.getHours())}:${pad2(d.getMinutes())}:${pad2(d.getSeconds())}`, 8);
+  bext.u32(meta.timeReference % 0x100000000);
+  bext.u32(Math.floor(meta.timeReference / 0x100000000));
+  bext.u16(1); // Version
+  bext.zeros(64); // UMID
+  bext.zeros(190); // Reserved
+  const mode = format.channels === 1 ? 'mono' : format.channels === 2 ? 'stereo' : 'multichannel';
+  bext.ascii(`A=${format.bitDepth === 32 ? 'PCM_FLOAT' : 'PCM'},F=${format.sampleRate},W=${format.bitDepth},M=${mode},T=${ORIGINATOR}\r\n`);
+  return bext;
+};
+
+const buildIxml = (format: WavFormat, meta: WavMetadata) => {
+  const channelName = (i: number) => format.channels === 2 ? (i ? 'R' : 'L') : `CH${i + 1}`;
+  const trackName = (i: number) => !meta.trackName ? channelName(i)
+    : format.channels === 1 ? meta.trackName : `${meta.trackName} ${channelName(i)}`;
+  const tracks = Array.from({ length: format.channels }, (_, i) =>
+    `<TRACK><CHANNEL_INDEX>${i + 1}</CHANNEL_INDEX><INTERLEAVE_INDEX>${i + 1}</INTERLEAVE_INDEX><NAME>${escapeXml(trackName(i))}</NAME></TRACK>`
+  ).join('');
+  const d = meta.date;
+  const rate = TIMECODE_RATES[meta.timecodeRate];
+  const xml = '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<BWFXML><IXML_VERSION>1.5</IXML_VERSION>' +
+    `<PROJECT>${escapeXml(meta.project)}</PROJECT>` +
+    (meta.scene ? `<SCENE>${escapeXml(meta.scene)}</SCENE>` : '') +
+    (meta.take !== null ? `<TAKE>${meta.take}</TAKE>` : '') +
+    `<TAPE>${d.getFullYear()}${pad2(d.getMonth() + 1)}${pad2(d.getDate())}</TAPE>` +
+    '<SPEED>' +
+    `<MASTER_SPEED>${rate.ratio}</MASTER_SPEED>` +
+    `<TIMECODE_RATE>${rate.ratio}</TIMECODE_RATE><TIMECODE_FLAG>${rate.dropFrame ? 'DF' : 'NDF'}</TIMECODE_FLAG>` +
+    `<FILE_SAMPLE_RATE>${format.sampleRate}</FILE_SAMPLE_RATE><AUDIO_BIT_DEPTH>${format.bitDepth}</AUDIO_BIT_DEPTH>` +
+    `<TIMESTAMP_SAMPLE_RATE>${format.sampleRate}</TIMESTAMP_SAMPLE_RATE>` +
+    `<TIMESTAMP_SAMPLES_SINCE_MIDNIGHT_HI>${Math.floor(meta.timeReference / 0x100000000)}</TIMESTAMP_SAMPLES_SINCE_MIDNIGHT_HI>` +
+    `<TIMESTAMP_SAMPLES_SINCE_MIDNIGHT_LO>${meta.timeReference % 0x100000000}</TIMESTAMP_SAMPLES_SINCE_MIDNIGHT_LO>` +
+    '</SPEED>' +
+    `<TRACK_LIST><TRACK_COUNT>${format.channels}</TRACK_COUNT>${tracks}</TRACK_LIST>` +
+    '</BWFXML>';
+  const ixml = new ChunkWriter();
+  ixml.raw(new TextEncoder().encode(xml));
+  return ixml;
+};
+
+/**
+ * Everything before the samples. With `dataBytes` null the sizes are written
+ * as "unknown", which readers treat as "read to end of file".
+ */
+export const buildWavHeader = (format: WavFormat, meta: WavMetadata, dataBytes: number | null) => {
+  const isFloat = format.bitDepth === 32;
+  const blockAlign = format.channels * format.bitDepth / 8;
+
+  const fmt = new ChunkWriter();
+  fmt.u16(isFloat ? 3 : 1);
+  fmt.u16(format.channels);
+  fmt.u32(format.sampleRate);
+  fmt.u32(format.sampleRate * blockAlign);
+  fmt.u16(blockAlign);
+  fmt.u16(format.bitDepth);
+  if (isFloat) fmt.u16(0); // cbSize
+
+  const body = new ChunkWriter();
+  body.ascii('WAVE', 4);
+  body.chunk('bext', buildBext(format, meta));
+  body.chunk('fmt ', fmt);
+  if (isFloat) {
+    const fact = new ChunkWriter();
+    fact.u32(dataBytes === null ? UNKNOWN_SIZE : dataBytes / blockAlign);
+    body.chunk('fact', fact);
+  }
+  body.chunk('iXML', buildIxml(format, meta));
+
+  const header = new ChunkWriter();
+  header.ascii('RIFF', 4);
+  header.u32(dataBytes === null ? UNKNOWN_SIZE : body.length + 8 + dataBytes + (dataBytes % 2));
+  const bytes = new Uint8Array(header.length + body.length + 8);
+  bytes.set(header.toUint8Array(), 0);
+  bytes.set(body.toUint8Array(), header.length);
+  const view = new DataView(bytes.buffer);
+  const dataOffset = header.length + body.length;
+  view.setUint32(dataOffset, 0x61746164, true); // 'data'
+  view.setUint32(dataOffset + 4, dataBytes === null ? UNKNOWN_SIZE : dataBytes, true);
+  return bytes;
+};
@@ -0,0 +1,133 @@
+// Uncompressed audio takes. MediaRecorder only produces lossy Opus/AAC, so the
+// mic stream is tapped with an AudioWorklet instead and the raw samples are
+// encoded to PCM here, at the AudioContext's sample rate.
+
+import { TimecodeSettings, WavBitDepth } from '../types';
+import { WavMetadata, WavFormat, encodePcm, buildWavHeader } from './wav';
+import { TakeWriter } from './takeRecovery';
+import { timecodeSecondsAt } from './timecode';
+
+// How long stop() waits for the worklet to hand over its last block
+const FLUSH_TIMEOUT_MS = 1000;
+
+export interface WavTakeInfo {
+  project: string;
+  scene: string | null;
+  take: number | null;
+  timecode: TimecodeSettings;
+  trackName: string | null;
+}
+
+export class WavRecorder {
+  private context: AudioContext;
+  private node: AudioWorkletNode | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private parts: BlobPart[] = [];
+  private dataBytes = 0;
+  private format: WavFormat;
+  private metadata: WavMetadata | null = null;
+  /** Rejects if capture couldn't start (e.g. no AudioWorklet support). */
+  readonly ready: Promise<void>;
+  private onFlushed: (() => void) | null = null;
+
+  /**
+   * Starts capturing `stream` right away. When a `writer` is given, a header
+   * with "unknown" sizes and then every PCM block are persisted, so a
+   * recovered take is already a playable WAV.
+   */
+  constructor(
+    stream: MediaStream,
+    bitDepth: WavBitDepth,
+    channels: number,
+    private info: WavTakeInfo,
+    private writer: TakeWriter | null = null
+  ) {
+    if (!stream.getAudioTracks().length) throw new Error('No audio track to record');
+    this.context = new AudioContext();
+    this.format = { sampleRate: this.context.sampleRate, channels, bitDepth };
+    this.ready = this.start(stream);
+  }
+
+  private async start(stream: MediaStream) {
+    await this.context.audioWorklet.addModule(new URL('../workers/pcmCapture.worklet.js', import.meta.url));
+    const { channels } = this.format;
+    this.source = this.context.createMediaStreamSource(stream);
+    this.node = new AudioWorkletNode(this.context, 'pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: channels,
+      channelCountMode: 'explicit',
+      processorOptions: { channelCount: channels }
+    });
+    this.node.port.onmessage = (e: MessageEvent<Float32Array[] | 'flushed'>) => {
+      if (e.data === 'flushed') {
+        this.onFlushed?.();
+        return;
+      }
+      const pcm = encodePcm(e.data, this.format.bitDepth);
+      this.parts.push(pcm);
+      this.dataBytes += pcm.length;
+      this.writer?.append(new Blob([pcm]));
+    };
+
+    // Timestamp taken as the graph goes live: this is the first sample's time
+    const date = new Date();
+    const { project, scene, take, timecode, trackName } = this.info;
+    this.metadata = {
+      project,
+      scene,
+      take,
+      date,
+      timeReference: Math.round(timecodeSecondsAt(timecode, date) * this.format.sampleRate),
+      timecodeRate: timecode.rate,
+      trackName
+    };
+    this.writer?.append(new Blob([buildWavHeader(this.format, this.metadata, null)]));
+    this.source.connect(this.node);
+    if (this.context.state === 'suspended') await this.context.resume();
+  }
+
+  /** Wall-clock time of the first sample, once capture is running. */
+  get startedAt(): Date | null {
+    return this.metadata?.date ?? null;
+  }
+
+  get sampleRate() {
+    return this.format.sampleRate;
+  }
+
+  /** Bits per second written; constant for PCM. */
+  get bitrate() {
+    return this.format.sampleRate * this.format.channels * this.format.bitDepth;
+  }
+
+  /** Seconds of audio captured so far. */
+  get duration() {
+    return this.dataBytes / (this.format.channels * this.format.bitDepth / 8) / this.format.sampleRate;
+  }
+
+  /** Ends the take and returns the finished file. */
+  async stop(): Promise<Blob> {
+    try {
+      await this.ready;
+      if (this.node) {
+        await new Promise<void>(resolve => {
+          const timer = window.setTimeout(resolve, FLUSH_TIMEOUT_MS);
+          this.onFlushed = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+          this.node!.port.postMessage('flush');
+        });
+      }
+    } finally {
+      this.source?.disconnect();
+      this.node?.disconnect();
+      this.context.close().catch(() => {});
+    }
+
+    const header = buildWavHeader(this.format, this.metadata!, this.dataBytes);
+    const padding = this.dataBytes % 2 ? [new Uint8Array(1)] : [];
+    return new Blob([header, ...this.parts, ...padding], { type: 'audio/wav' });
+  }
+}
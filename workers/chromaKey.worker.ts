@@ -0,0 +1,45 @@
+// Chroma key worker: receives video frames as ImageBitmaps, keys them on an
+// OffscreenCanvas and hands the result back, keeping the per-pixel loop off
+// the UI thread.
+
+import { ChromaKeySettings } from '../types';
+import { keyPixels } from '../utils/chromaKey';
+
+export interface ChromaKeyRequest {
+  frame: ImageBitmap;
+  keyColor: string;
+  settings: ChromaKeySettings;
+}
+
+export interface ChromaKeyResponse {
+  frame: ImageBitmap;
+}
+
+const worker = self as unknown as Worker;
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+worker.onmessage = (e: MessageEvent<ChromaKeyRequest>) => {
+  const { frame, keyColor, settings } = e.data;
+
+  if (!canvas || canvas.width !== frame.width || canvas.height !== frame.height) {
+    canvas = new OffscreenCanvas(frame.width, frame.height);
+    ctx = canvas.getContext('2d', { willReadFrequently: true });
+  }
+  if (!ctx) {
+    frame.close();
+    return;
+  }
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(frame, 0, 0);
+  frame.close();
+
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  keyPixels(image.data, keyColor, settings);
+  ctx.putImageData(image, 0, 0);
+
+  const keyed = canvas.transferToImageBitmap();
+  const response: ChromaKeyResponse = { frame: keyed };
+  worker.postMessage(response, [keyed]);
+};
@@ -0,0 +1,146 @@
+// Loudness worklet (ITU-R BS.1770 / EBU R128). Plain JS like the PCM capture
+// worklet: loaded by URL, not bundled.
+// Every sample goes through the K-weighting filter; mean squares are summed
+// over the channels in 100 ms blocks, which the main thread combines into
+// momentary (4 blocks), short-term (30 blocks) and gated integrated loudness.
+// True peak comes from 4x oversampling with a windowed-sinc interpolator.
+
+const BLOCK_SECONDS = 0.1;
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+// K-weighting as two biquads: high shelf (head) then high pass (RLB), with
+// the coefficients derived for the context's sample rate
+const kWeighting = (sampleRate) => {
+  let f0 = 1681.974450955533;
+  const gain = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan(Math.PI * f0 / sampleRate);
+  const vh = Math.pow(10, gain / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf = {
+    b: [(vh + vb * k / q + k * k) / a0, 2 * (k * k - vh) / a0, (vh - vb * k / q + k * k) / a0],
+    a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0]
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass = {
+    b: [1, -2, 1],
+    a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0]
+  };
+  return [shelf, highPass];
+};
+
+// Hann-windowed sinc, split into one normalized filter per output phase
+const interpolationPhases = () => {
+  const length = OVERSAMPLING * TAPS_PER_PHASE;
+  const center = length / 2;
+  const phases = Array.from({ length: OVERSAMPLING }, () => new Float32Array(TAPS_PER_PHASE));
+  for (let m = 0; m < length; m++) {
+    const t = (m - center) / OVERSAMPLING;
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    const window = 0.5 - 0.5 * Math.cos(2 * Math.PI * (m + 0.5) / length);
+    phases[m % OVERSAMPLING][Math.floor(m / OVERSAMPLING)] = sinc * window;
+  }
+  phases.forEach(taps => {
+    const sum = taps.reduce((a, b) => a + b, 0);
+    for (let i = 0; i < taps.length; i++) taps[i] /= sum;
+  });
+  return phases;
+};
+
+class LoudnessMeterProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.channelCount = options.processorOptions.channelCount;
+    this.blockFrames = Math.round(sampleRate * BLOCK_SECONDS);
+    this.filters = kWeighting(sampleRate);
+    this.phases = interpolationPhases();
+    this.channels = Array.from({ length: this.channelCount }, () => ({
+      // Biquad state: [x1, x2, y1, y2] per stage
+      state: this.filters.map(() => new Float64Array(4)),
+      // Last samples, written twice so the taps always read one contiguous run
+      history: new Float32Array(2 * TAPS_PER_PHASE),
+      historyIndex: 0,
+      sum: 0,
+      samplePeak: 0,
+      truePeak: 0
+    }));
+    this.frames = 0;
+  }
+
+  filter(channel, x) {
+    let value = x;
+    for (let s = 0; s < this.filters.length; s++) {
+      const { b, a } = this.filters[s];
+      const st = channel.state[s];
+      const y = b[0] * value + b[1] * st[0] + b[2] * st[1] - a[0] * st[2] - a[1] * st[3];
+      st[1] = st[0];
+      st[0] = value;
+      st[3] = st[2];
+      st[2] = y;
+      value = y;
+    }
+    return value;
+  }
+
+  oversampledPeak(channel, x) {
+    const { history } = channel;
+    const newest = channel.historyIndex + TAPS_PER_PHASE;
+    history[channel.historyIndex] = x;
+    history[newest] = x;
+    channel.historyIndex = (channel.historyIndex + 1) % TAPS_PER_PHASE;
+    let peak = 0;
+    for (let p = 0; p < this.phases.length; p++) {
+      const taps = this.phases[p];
+      let y = 0;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) y += taps[k] * history[newest - k];
+      const magnitude = Math.abs(y);
+      if (magnitude > peak) peak = magnitude;
+    }
+    return peak;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    const frames = input.length ? input[0].length : 0;
+    if (!frames) return true;
+
+    for (let c = 0; c < this.channelCount; c++) {
+      const samples = input[c] || input[0];
+      const channel = this.channels[c];
+      for (let i = 0; i < frames; i++) {
+        const x = samples[i];
+        const z = this.filter(channel, x);
+        channel.sum += z * z;
+        const magnitude = Math.abs(x);
+        if (magnitude > channel.samplePeak) channel.samplePeak = magnitude;
+        const truePeak = this.oversampledPeak(channel, x);
+        if (truePeak > channel.truePeak) channel.truePeak = truePeak;
+      }
+    }
+
+    this.frames += frames;
+    if (this.frames >= this.blockFrames) {
+      // Channel weights are 1 for left and right (BS.1770)
+      const power = this.channels.reduce((sum, ch) => sum + ch.sum / this.frames, 0);
+      this.port.postMessage({
+        power,
+        truePeak: this.channels.map(ch => Math.max(ch.truePeak, ch.samplePeak))
+      });
+      this.channels.forEach(ch => {
+        ch.sum = 0;
+        ch.samplePeak = 0;
+        ch.truePeak = 0;
+      });
+      this.frames = 0;
+    }
+    return true;
+  }
+}
+
+registerProcessor('loudness-meter', LoudnessMeterProcessor);
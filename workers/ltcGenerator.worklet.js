@@ -0,0 +1,100 @@
+// LTC (SMPTE 12M linear timecode) generator worklet. Plain JS like the PCM
+// capture worklet: loaded by URL, not bundled.
+// The signal is computed from the position alone (frame + fraction), never
+// from running state, so re-anchoring to the clock can't glitch the bitstream:
+// every frame carries an even number of transitions (parity bit), so each one
+// starts at the same level.
+
+const SYNC_WORD = [0, 0, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 1];
+const AMPLITUDE = 0.5;
+const DF_TEN_MINUTES = 17982;
+const DF_MINUTE = 1798;
+
+class LtcGeneratorProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    const { fps, nominal, dropFrame, channel } = options.processorOptions;
+    super();
+    this.fps = fps;
+    this.nominal = nominal;
+    this.dropFrame = dropFrame;
+    this.channel = channel;
+    this.framesPerDay = dropFrame ? 144 * DF_TEN_MINUTES : nominal * 86400;
+    this.anchor = null; // { position (frames), sample (context frame) }
+    this.cachedFrame = -1;
+    this.bits = null;
+    this.onesBefore = null;
+    this.port.onmessage = (e) => {
+      this.anchor = e.data;
+    };
+  }
+
+  // Timecode digits for a frame count (drop-frame aware)
+  digits(frames) {
+    let count = frames;
+    if (this.dropFrame) {
+      const tens = Math.floor(count / DF_TEN_MINUTES);
+      const rest = count % DF_TEN_MINUTES;
+      count += 18 * tens + (rest < 2 ? 0 : 2 * Math.floor((rest - 2) / DF_MINUTE));
+    }
+    const totalSeconds = Math.floor(count / this.nominal);
+    return {
+      ff: count % this.nominal,
+      ss: totalSeconds % 60,
+      mm: Math.floor(totalSeconds / 60) % 60,
+      hh: Math.floor(totalSeconds / 3600) % 24
+    };
+  }
+
+  // The 80-bit word for one frame, LSB first per field
+  encode(frames) {
+    const bits = new Uint8Array(80);
+    const put = (value, start, count) => {
+      for (let i = 0; i < count; i++) bits[start + i] = (value >> i) & 1;
+    };
+    const { ff, ss, mm, hh } = this.digits(frames);
+    put(ff % 10, 0, 4);
+    put(Math.floor(ff / 10), 8, 2);
+    bits[10] = this.dropFrame ? 1 : 0;
+    put(ss % 10, 16, 4);
+    put(Math.floor(ss / 10), 24, 3);
+    put(mm % 10, 32, 4);
+    put(Math.floor(mm / 10), 40, 3);
+    put(hh % 10, 48, 4);
+    put(Math.floor(hh / 10), 56, 2);
+    SYNC_WORD.forEach((bit, i) => { bits[64 + i] = bit; });
+
+    // Polarity correction: even number of ones in the whole word
+    const parityBit = this.nominal === 25 ? 59 : 27;
+    const ones = bits.reduce((sum, b) => sum + b, 0);
+    if (ones % 2) bits[parityBit] = 1;
+    return bits;
+  }
+
+  level(position) {
+    const frame = Math.floor(position);
+    if (frame !== this.cachedFrame) {
+      const wrapped = ((frame % this.framesPerDay) + this.framesPerDay) % this.framesPerDay;
+      this.bits = this.encode(wrapped);
+      this.onesBefore = new Uint8Array(80);
+      for (let i = 1; i < 80; i++) this.onesBefore[i] = this.onesBefore[i - 1] + this.bits[i - 1];
+      this.cachedFrame = frame;
+    }
+    const bitPosition = (position - frame) * 80;
+    const bit = Math.floor(bitPosition);
+    // Biphase mark: a transition at every bit start, another mid-bit for a one
+    const transitions = bit + 1 + this.onesBefore[bit] + (this.bits[bit] && bitPosition - bit >= 0.5 ? 1 : 0);
+    return transitions % 2 ? AMPLITUDE : -AMPLITUDE;
+  }
+
+  process(_inputs, outputs) {
+    const output = outputs[0][this.channel];
+    if (!output || !this.anchor) return true;
+    const step = this.fps / sampleRate;
+    for (let i = 0; i < output.length; i++) {
+      output[i] = this.level(this.anchor.position + (currentFrame + i - this.anchor.sample) * step);
+    }
+    return true;
+  }
+}
+
+registerProcessor('ltc-generator', LtcGeneratorProcessor);
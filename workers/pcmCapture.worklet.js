@@ -0,0 +1,49 @@
+// PCM capture worklet. Plain JS on purpose: worklet modules are loaded as-is
+// by URL, they don't go through the bundler like the workers do.
+// Copies the input channels into blocks of BLOCK_FRAMES and posts them to the
+// main thread (buffers transferred, no copies on the way back). A 'flush'
+// message posts whatever is left and answers 'flushed', so stopping never
+// drops the tail of the take.
+
+const BLOCK_FRAMES = 4096;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.channelCount = options.processorOptions.channelCount;
+    this.allocate();
+    this.port.onmessage = (e) => {
+      if (e.data !== 'flush') return;
+      if (this.offset > 0) this.flush();
+      this.port.postMessage('flushed');
+    };
+  }
+
+  allocate() {
+    this.block = Array.from({ length: this.channelCount }, () => new Float32Array(BLOCK_FRAMES));
+    this.offset = 0;
+  }
+
+  flush() {
+    const channels = this.block.map(ch => ch.subarray(0, this.offset).slice());
+    this.port.postMessage(channels, channels.map(ch => ch.buffer));
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    const frames = input.length ? input[0].length : 0;
+    if (!frames) return true;
+
+    for (let c = 0; c < this.channelCount; c++) {
+      // A mono source feeding a stereo file: duplicate rather than write silence
+      const source = input[c] || input[0];
+      this.block[c].set(source, this.offset);
+    }
+    this.offset += frames;
+    if (this.offset + frames > BLOCK_FRAMES) this.flush();
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);